@@ -0,0 +1,125 @@
+/**
+ * App Write Endpoint
+ * Runs the versioned write tools for the signed-in user, so the app can
+ * send expected_version and get a conflict back when its copy is stale
+ */
+import { onRequest } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { VapiGenericToolCall, VapiToolCallResult } from "./types/vapiTypes.js";
+import { ToolCallError } from "./services/vapiTools.js";
+import { VersionConflictError } from "./services/versionedDocuments.js";
+import { getRequestUserId } from "./services/appAuth.js";
+import { TOOL_HANDLERS } from "./vapiToolsEndpoint.js";
+
+// Write tools that accept expected_version
+export const APP_WRITE_TOOLS = [
+  "createToDoList",
+  "updateToDoItems",
+  "editToDoItem",
+  "deleteToDoItems",
+  "reorderToDoItems",
+  "updateTasks",
+  "updateTaskCompletion",
+  "updateMeals",
+  "addMealItems",
+  "removeMealItems",
+  "checkGroceryItems",
+  "appendJournalEntry",
+];
+
+// Written to "modifiedBy" on documents the app changes
+const APP_MODIFIED_BY = "app";
+
+/**
+ * HTTP-triggered function that runs one write tool for the signed-in user
+ * Expects { tool, arguments } with a Firebase ID token as a Bearer token.
+ * The user_id argument is always the token's user. A stale
+ * expected_version is answered with 409 and current_version.
+ */
+export const appWrite = onRequest(async (req, res) => {
+  try {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+      res.status(405).json({
+        success: false,
+        error: "Method not allowed. Please use POST.",
+        code: 405,
+      });
+      return;
+    }
+
+    // Validate the Firebase ID token from headers
+    const userId = await getRequestUserId(req);
+    if (!userId) {
+      logger.warn("Unauthorized appWrite attempt", { ip: req.ip });
+      res.status(401).json({
+        success: false,
+        error: "Unauthorized: Invalid or missing ID token",
+        code: 401,
+      });
+      return;
+    }
+
+    const { tool, arguments: args } = req.body || {};
+    if (typeof tool !== "string" || !APP_WRITE_TOOLS.includes(tool)) {
+      res.status(400).json({
+        success: false,
+        error: `Unknown tool. Allowed: ${APP_WRITE_TOOLS.join(", ")}`,
+        code: 400,
+      });
+      return;
+    }
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
+      res.status(400).json({
+        success: false,
+        error: "arguments must be an object",
+        code: 400,
+      });
+      return;
+    }
+
+    // Run the tool as the assistant would, for the signed-in user only
+    const toolCall: VapiGenericToolCall = {
+      id: APP_MODIFIED_BY,
+      type: "function",
+      function: { name: tool, arguments: { ...args, user_id: userId } },
+    };
+
+    let result: VapiToolCallResult;
+    try {
+      result = await TOOL_HANDLERS[tool](toolCall);
+    } catch (error) {
+      if (!(error instanceof ToolCallError)) {
+        throw error;
+      }
+      res.status(error.code).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        ...(error instanceof VersionConflictError && {
+          current_version: error.currentVersion,
+        }),
+      });
+      return;
+    }
+
+    if (result.error) {
+      const code = result.code || 400;
+      res.status(code).json({ success: false, error: result.error, code });
+      return;
+    }
+
+    res.status(200).json({ success: true, result: result.result });
+  } catch (error) {
+    logger.error("Error in appWrite", {
+      error:
+        error instanceof Error
+          ? { message: error.message, stack: error.stack }
+          : error,
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+});
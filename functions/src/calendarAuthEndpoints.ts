@@ -0,0 +1,100 @@
+/**
+ * Google Calendar Connect Endpoints
+ * OAuth connect/callback flow that links a user's Google Calendar
+ */
+import { onRequest } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { getRequestUserId } from "./services/appAuth.js";
+import {
+  connectCalendar,
+  getAuthUrl,
+  verifyState,
+} from "./services/googleCalendar.js";
+
+/**
+ * HTTP-triggered function that returns the Google consent URL for the
+ * signed-in user. Requires a Firebase ID token as a Bearer token.
+ */
+export const connectGoogleCalendar = onRequest(async (req, res) => {
+  try {
+    // Only allow GET and POST requests
+    if (req.method !== "GET" && req.method !== "POST") {
+      res.status(405).json({
+        success: false,
+        error: "Method not allowed. Please use GET or POST.",
+        code: 405,
+      });
+      return;
+    }
+
+    // Validate the Firebase ID token from headers
+    const userId = await getRequestUserId(req);
+    if (!userId) {
+      logger.warn("Unauthorized calendar connect attempt", { ip: req.ip });
+      res.status(401).json({
+        success: false,
+        error: "Unauthorized: Invalid or missing ID token",
+        code: 401,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      url: getAuthUrl(userId),
+    });
+  } catch (error) {
+    logger.error("Error in connectGoogleCalendar", {
+      error:
+        error instanceof Error
+          ? { message: error.message, stack: error.stack }
+          : error,
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+});
+
+/**
+ * HTTP-triggered function Google redirects to after the user grants
+ * calendar access
+ */
+export const googleCalendarCallback = onRequest(async (req, res) => {
+  try {
+    const { code, state, error } = req.query;
+
+    if (error) {
+      logger.warn("Google Calendar consent was not granted", { error });
+      res.status(400).send("Google Calendar was not connected.");
+      return;
+    }
+
+    if (typeof code !== "string" || typeof state !== "string") {
+      res.status(400).send("Missing code or state.");
+      return;
+    }
+
+    const userId = verifyState(state);
+    if (!userId) {
+      logger.warn("Invalid or expired OAuth state", { ip: req.ip });
+      res.status(400).send("This link has expired. Please try again.");
+      return;
+    }
+
+    await connectCalendar(userId, code);
+
+    res
+      .status(200)
+      .send("Google Calendar connected. You can return to the app.");
+  } catch (error) {
+    logger.error("Error in googleCalendarCallback", {
+      error:
+        error instanceof Error
+          ? { message: error.message, stack: error.stack }
+          : error,
+    });
+    res.status(500).send("Something went wrong connecting Google Calendar.");
+  }
+});
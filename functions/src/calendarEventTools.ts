@@ -0,0 +1,460 @@
+/**
+ * Calendar Event Write Tools
+ * Create, move/edit and delete events in the user's Google Calendar.
+ * These are served through the vapiTools dispatch endpoint.
+ */
+import * as logger from "firebase-functions/logger";
+import { google, calendar_v3 as calendarV3 } from "googleapis";
+import {
+  CalendarEventResponse,
+  CalendarVapiToolCall,
+  CreateCalendarEventFunctionCall,
+  DeleteCalendarEventFunctionCall,
+  UpdateCalendarEventFunctionCall,
+} from "./types/calendarTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { toolCallError } from "./services/vapiTools.js";
+import {
+  getCalendarAuthForUser,
+  toCalendarEvent,
+} from "./services/googleCalendar.js";
+import {
+  addDays,
+  getUserTimeZone,
+  zonedTimeToUtc,
+} from "./services/timezone.js";
+import { isIsoDate } from "./services/dateRanges.js";
+
+// Constants
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_SUMMARY_LENGTH = 500;
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+// Local date-time without an offset, such as "2025-06-01T18:00" or
+// "2025-06-01T18:00:00"
+const LOCAL_DATE_TIME_REGEX = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+// ISO date-time with an offset, such as "2025-06-01T18:00:00Z" or
+// "2025-06-01T18:00:00+02:00"
+const OFFSET_DATE_TIME_REGEX = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Check whether a value is a date or date-time we can send to Google:
+ * YYYY-MM-DD, a local date-time or an ISO date-time with an offset
+ */
+function isValidEventTime(value: unknown): value is string {
+  if (typeof value !== "string") {
+    return false;
+  }
+  if (DATE_ONLY_REGEX.test(value)) {
+    return isIsoDate(value);
+  }
+
+  const match =
+    value.match(LOCAL_DATE_TIME_REGEX) || value.match(OFFSET_DATE_TIME_REGEX);
+  if (!match) {
+    return false;
+  }
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return (
+    isIsoDate(`${year}-${month}-${day}`) &&
+    Number(hours) < 24 &&
+    Number(minutes) < 60 &&
+    Number(seconds || 0) < 60
+  );
+}
+
+/**
+ * Get the instant of a date-time, reading local date-times in the user's
+ * zone
+ */
+function toInstant(value: string, timeZone: string): number {
+  const match = value.match(LOCAL_DATE_TIME_REGEX);
+  if (!match) {
+    return Date.parse(value);
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return (
+    zonedTimeToUtc(
+      `${year}-${month}-${day}`,
+      Number(hours),
+      Number(minutes),
+      timeZone
+    ).getTime() +
+    Number(seconds || 0) * 1000
+  );
+}
+
+/**
+ * Check that an event can run from start to end
+ * Returns an error message, or null if the times are usable.
+ */
+function checkEventRange(
+  start: string,
+  end: string,
+  timeZone: string
+): string | null {
+  const allDay = DATE_ONLY_REGEX.test(start);
+  if (allDay !== DATE_ONLY_REGEX.test(end)) {
+    return "start and end must both be dates (all-day) or both date-times";
+  }
+
+  // All-day events end on the following day at the earliest
+  const ordered = allDay
+    ? end > start
+    : toInstant(end, timeZone) > toInstant(start, timeZone);
+  return ordered ? null : "end must be after start";
+}
+
+/**
+ * Convert a date or date-time to a Google event time in the user's zone
+ */
+function toEventDateTime(
+  value: string,
+  timeZone: string
+): calendarV3.Schema$EventDateTime {
+  if (DATE_ONLY_REGEX.test(value)) {
+    return { date: value };
+  }
+  return { dateTime: value, timeZone };
+}
+
+/**
+ * Add minutes to a date-time, keeping local date-times without an offset
+ */
+function addMinutes(value: string, minutes: number): string {
+  const match = value.match(LOCAL_DATE_TIME_REGEX);
+  if (!match) {
+    return new Date(Date.parse(value) + minutes * 60000).toISOString();
+  }
+
+  const [, year, month, day, hours, mins, secs] = match;
+  const shifted = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(mins) + minutes,
+      Number(secs || 0)
+    )
+  );
+  // Wall-clock arithmetic in UTC, then drop the "Z" to keep it local
+  return shifted.toISOString().slice(0, 19);
+}
+
+/**
+ * Check an event summary sent by the assistant
+ * Returns an error message, or null if the summary is usable.
+ */
+function validateSummary(summary: unknown): string | null {
+  if (typeof summary !== "string" || !summary.trim()) {
+    return "summary must be a non-empty string";
+  }
+  if (summary.length > MAX_SUMMARY_LENGTH) {
+    return `Summary too long. Maximum length: ${MAX_SUMMARY_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Get the end of an event that starts at `start`
+ */
+function getEventEnd(
+  start: string,
+  timeZone: string,
+  durationMinutes: number
+): calendarV3.Schema$EventDateTime {
+  if (DATE_ONLY_REGEX.test(start)) {
+    // All-day events end (exclusively) on the following day
+    return { date: addDays(start, 1) };
+  }
+  return toEventDateTime(addMinutes(start, durationMinutes), timeZone);
+}
+
+/**
+ * Get a Calendar API client for the user, or an error result
+ */
+async function getCalendarForUser(
+  toolCall: CalendarVapiToolCall,
+  userId: string
+): Promise<calendarV3.Calendar | VapiToolCallResult> {
+  const oAuth2Client = await getCalendarAuthForUser(userId);
+  if (!oAuth2Client) {
+    return toolCallError(
+      toolCall.id,
+      "Google Calendar is not connected for this user"
+    );
+  }
+  return google.calendar({ version: "v3", auth: oAuth2Client });
+}
+
+/**
+ * Build the tool result confirming the final event
+ */
+function eventResult(
+  toolCall: CalendarVapiToolCall,
+  message: string,
+  event: calendarV3.Schema$Event
+): VapiToolCallResult {
+  const response: CalendarEventResponse = {
+    success: true,
+    message,
+    timestamp: new Date().toISOString(),
+    operation_id: toolCall.id,
+    event: toCalendarEvent(event),
+  };
+  return { toolCallId: toolCall.id, result: response };
+}
+
+/**
+ * Creates an event in the user's calendar in a single tool call
+ */
+export async function createCalendarEvent(
+  toolCall: CalendarVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as CreateCalendarEventFunctionCall;
+  const {
+    user_id,
+    summary,
+    start,
+    end,
+    duration_minutes,
+    description,
+    location,
+    calendar_id,
+  } = args;
+
+  // Validate required fields
+  if (!user_id || !summary || !start) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id, summary or start"
+    );
+  }
+
+  const summaryError = validateSummary(summary);
+  if (summaryError) {
+    return toolCallError(toolCall.id, summaryError);
+  }
+
+  if (!isValidEventTime(start) || (end && !isValidEventTime(end))) {
+    return toolCallError(
+      toolCall.id,
+      "start and end must be YYYY-MM-DD, YYYY-MM-DDTHH:MM or an ISO " +
+        "date-time with an offset"
+    );
+  }
+
+  if (
+    duration_minutes !== undefined &&
+    (typeof duration_minutes !== "number" || duration_minutes <= 0)
+  ) {
+    return toolCallError(
+      toolCall.id,
+      "duration_minutes must be a positive number"
+    );
+  }
+
+  // Local date-times are interpreted in the user's time zone
+  const timeZone = await getUserTimeZone(user_id);
+
+  const rangeError = end && checkEventRange(start, end, timeZone);
+  if (rangeError) {
+    return toolCallError(toolCall.id, rangeError);
+  }
+
+  const calendar = await getCalendarForUser(toolCall, user_id);
+  if (!("events" in calendar)) {
+    return calendar;
+  }
+
+  const response = await calendar.events.insert({
+    calendarId: calendar_id || "primary",
+    requestBody: {
+      summary,
+      description,
+      location,
+      start: toEventDateTime(start, timeZone),
+      end: end
+        ? toEventDateTime(end, timeZone)
+        : getEventEnd(
+            start,
+            timeZone,
+            duration_minutes || DEFAULT_DURATION_MINUTES
+          ),
+    },
+  });
+
+  logger.info("Calendar event created", {
+    userId: user_id,
+    eventId: response.data.id,
+  });
+
+  return eventResult(toolCall, "Calendar event created", response.data);
+}
+
+/**
+ * Moves or edits an event in the user's calendar in a single tool call
+ */
+export async function updateCalendarEvent(
+  toolCall: CalendarVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as UpdateCalendarEventFunctionCall;
+  const {
+    user_id,
+    event_id,
+    summary,
+    start,
+    end,
+    description,
+    location,
+    calendar_id,
+  } = args;
+
+  // Validate required fields
+  if (!user_id || !event_id) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id or event_id"
+    );
+  }
+
+  if (
+    summary === undefined &&
+    start === undefined &&
+    end === undefined &&
+    description === undefined &&
+    location === undefined
+  ) {
+    return toolCallError(
+      toolCall.id,
+      "At least one field must be provided (summary, start, end, description, location)"
+    );
+  }
+
+  const summaryError = summary !== undefined && validateSummary(summary);
+  if (summaryError) {
+    return toolCallError(toolCall.id, summaryError);
+  }
+
+  if ((start && !isValidEventTime(start)) || (end && !isValidEventTime(end))) {
+    return toolCallError(
+      toolCall.id,
+      "start and end must be YYYY-MM-DD, YYYY-MM-DDTHH:MM or an ISO " +
+        "date-time with an offset"
+    );
+  }
+
+  const timeZone = await getUserTimeZone(user_id);
+
+  const rangeError = start && end && checkEventRange(start, end, timeZone);
+  if (rangeError) {
+    return toolCallError(toolCall.id, rangeError);
+  }
+
+  const calendar = await getCalendarForUser(toolCall, user_id);
+  if (!("events" in calendar)) {
+    return calendar;
+  }
+
+  const calendarId = calendar_id || "primary";
+
+  // Only send the fields that change
+  const patch: calendarV3.Schema$Event = {
+    ...(summary !== undefined && { summary }),
+    ...(description !== undefined && { description }),
+    ...(location !== undefined && { location }),
+    ...(start && { start: toEventDateTime(start, timeZone) }),
+    ...(end && { end: toEventDateTime(end, timeZone) }),
+  };
+
+  // Moving the start without an end keeps the event's original duration
+  if (start && !end) {
+    const existing = await calendar.events.get({
+      calendarId,
+      eventId: event_id,
+    });
+    const oldStart = existing.data.start;
+    const oldEnd = existing.data.end;
+
+    let durationMinutes = DEFAULT_DURATION_MINUTES;
+    if (oldStart?.dateTime && oldEnd?.dateTime) {
+      durationMinutes =
+        (Date.parse(oldEnd.dateTime) - Date.parse(oldStart.dateTime)) / 60000;
+    }
+    patch.end = getEventEnd(start, timeZone, durationMinutes);
+  }
+
+  // A new end alone must still follow the event's current start
+  if (end && !start) {
+    const existing = await calendar.events.get({
+      calendarId,
+      eventId: event_id,
+    });
+    const oldStart = existing.data.start?.date || existing.data.start?.dateTime;
+    const endError = oldStart && checkEventRange(oldStart, end, timeZone);
+    if (endError) {
+      return toolCallError(toolCall.id, endError);
+    }
+  }
+
+  const response = await calendar.events.patch({
+    calendarId,
+    eventId: event_id,
+    requestBody: patch,
+  });
+
+  logger.info("Calendar event updated", {
+    userId: user_id,
+    eventId: event_id,
+  });
+
+  return eventResult(toolCall, "Calendar event updated", response.data);
+}
+
+/**
+ * Deletes an event from the user's calendar in a single tool call
+ */
+export async function deleteCalendarEvent(
+  toolCall: CalendarVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as DeleteCalendarEventFunctionCall;
+  const { user_id, event_id, calendar_id } = args;
+
+  // Validate required fields
+  if (!user_id || !event_id) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id or event_id"
+    );
+  }
+
+  const calendar = await getCalendarForUser(toolCall, user_id);
+  if (!("events" in calendar)) {
+    return calendar;
+  }
+
+  const calendarId = calendar_id || "primary";
+
+  // Fetch first so the assistant can confirm what was removed
+  const existing = await calendar.events.get({
+    calendarId,
+    eventId: event_id,
+  });
+
+  await calendar.events.delete({
+    calendarId,
+    eventId: event_id,
+  });
+
+  logger.info("Calendar event deleted", {
+    userId: user_id,
+    eventId: event_id,
+  });
+
+  return eventResult(toolCall, "Calendar event deleted", existing.data);
+}
@@ -0,0 +1,86 @@
+/**
+ * Daily Rollover Job
+ */
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import { getFirestore } from "firebase-admin/firestore";
+import { UserProfile } from "./types/userTypes.js";
+import { PlannerDocument } from "./types/plannerTypes.js";
+import { ToDoListDocument } from "./types/todoTypes.js";
+import {
+  addDays,
+  getLocalDateString,
+  resolveTimeZone,
+} from "./services/timezone.js";
+import {
+  isRolloverEnabled,
+  rolloverUnfinishedItems,
+} from "./services/dailyRollover.js";
+
+// Initialize Firestore
+const db = getFirestore();
+
+/**
+ * Check whether a user's previous day still has to be carried over
+ * The day is due until its planner is marked rolledOverTo. A day only in
+ * the old to_do_list collection is due until it is migrated.
+ */
+async function isRolloverDue(userId: string, date: string): Promise<boolean> {
+  const userRef = db.collection("users").doc(userId);
+  const [plannerDoc, toDoDoc] = await db.getAll(
+    userRef.collection("planner").doc(date),
+    userRef.collection("to_do_list").doc(date)
+  );
+
+  const planner = plannerDoc.data() as PlannerDocument | undefined;
+  if (planner) {
+    return !planner.rolledOverTo;
+  }
+  const toDoList = toDoDoc.data() as ToDoListDocument | undefined;
+  return !!toDoList && !toDoList.migratedTo && !toDoList.rolledOverTo;
+}
+
+/**
+ * Scheduled function that carries unfinished planner tasks into the next
+ * day. It runs hourly and rolls over every user whose previous local day
+ * has not been carried over yet, so users are rolled over soon after
+ * their own midnight, and a late run or a DST change skipping midnight
+ * does not leave a day behind.
+ */
+export const rolloverUnfinishedItemsDaily = onSchedule(
+  "every 60 minutes",
+  async () => {
+    const usersSnapshot = await db.collection("users").get();
+    const now = new Date();
+
+    let rolledOver = 0;
+    let failed = 0;
+
+    for (const userDoc of usersSnapshot.docs) {
+      const user = userDoc.data() as UserProfile;
+      if (!isRolloverEnabled(user)) {
+        continue;
+      }
+
+      const timeZone = resolveTimeZone(user.timeZone);
+      const today = getLocalDateString(timeZone, now);
+      const yesterday = addDays(today, -1);
+      try {
+        if (!(await isRolloverDue(userDoc.id, yesterday))) {
+          continue;
+        }
+        await rolloverUnfinishedItems(userDoc.id, yesterday, today);
+        rolledOver++;
+      } catch (error) {
+        failed++;
+        logger.error(`Error rolling over items for user ${userDoc.id}:`, error);
+      }
+    }
+
+    logger.info("Daily rollover finished", {
+      users: usersSnapshot.size,
+      rolledOver,
+      failed,
+    });
+  }
+);
@@ -3,176 +3,223 @@
  * This function retrieves events from a user's Google Calendar
  */
 
-import { onRequest } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import { google } from "googleapis";
-import { CalendarEvent } from "./types/calendarTypes";
-import { VapiRequest } from "./types/plannerTypes";
+import {
+  CalendarEvent,
+  CalendarVapiToolCall,
+  GetCalendarEventsArguments,
+} from "./types/calendarTypes";
+import { VapiToolCallResult } from "./types/vapiTypes";
+import { createToolEndpoint, toolCallError } from "./services/vapiTools";
+import {
+  getCalendarAuthForUser,
+  toCalendarEvent,
+} from "./services/googleCalendar";
+import {
+  addDays,
+  getUserTimeZone,
+  zonedTimeToUtc,
+} from "./services/timezone";
+import { resolveDateRange } from "./services/dateRanges";
 
 // Initialize services
 const API_KEY = process.env.VAPI_API_KEY || "";
 
+// Constants
+const DEFAULT_CALENDAR_ID = "primary";
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_RESULTS_LIMIT = 250; // Google Calendar API maximum per page
+const MAX_CALENDARS = 10;
+
 /**
  * HTTP-triggered function that lists calendar events
- * Requires a valid Google OAuth access token with Calendar API scope
+ * Requires the user to have connected Google Calendar via connectGoogleCalendar
  */
-export const getCalendarEvents = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Calendar events request", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
-
-    // Only allow POST requests (since VAPI sends data via POST)
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
-
-    logger.info("request method verified");
-
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
-
-    logger.info("API key verified");
-
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
-
-    logger.info("VAPI request structure verified");
-
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-
-    // Use environment variables or hardcoded values for authentication
-    const ACCESS_TOKEN =
-      process.env.GOOGLE_CALENDAR_ACCESS_TOKEN || "your-access-token-here";
+export const getCalendarEvents = createToolEndpoint(
+  "getCalendarEvents",
+  [API_KEY],
+  listCalendarEvents
+);
 
-    logger.info("Access token length:", ACCESS_TOKEN.length);
-    logger.info("Access token first 10 chars:", ACCESS_TOKEN.substring(0, 10));
-
-    // Create OAuth2 client with the access token
-    const oAuth2Client = new google.auth.OAuth2();
-    oAuth2Client.setCredentials({
-      access_token: ACCESS_TOKEN,
-    });
+/**
+ * Lists calendar events in a single tool call
+ */
+export async function listCalendarEvents(
+  toolCall: CalendarVapiToolCall
+): Promise<VapiToolCallResult> {
+  const {
+    user_id,
+    start_date,
+    end_date,
+    calendar_ids,
+    query,
+    page_token,
+    max_results,
+  } = toolCall.function.arguments as GetCalendarEventsArguments;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
 
-    logger.info("OAuth2 client created with credentials");
+  // Validate calendar ids
+  if (
+    calendar_ids !== undefined &&
+    (!Array.isArray(calendar_ids) ||
+      calendar_ids.length > MAX_CALENDARS ||
+      calendar_ids.some((id) => typeof id !== "string" || !id))
+  ) {
+    return toolCallError(
+      toolCall.id,
+      `calendar_ids must be a list of up to ${MAX_CALENDARS} calendar ids`
+    );
+  }
+  const calendarIds =
+    calendar_ids && calendar_ids.length > 0
+      ? calendar_ids
+      : [DEFAULT_CALENDAR_ID];
+
+  if (
+    max_results !== undefined &&
+    (typeof max_results !== "number" || max_results <= 0)
+  ) {
+    return toolCallError(toolCall.id, "max_results must be a positive number");
+  }
+  const maxResults = Math.min(
+    max_results || DEFAULT_MAX_RESULTS,
+    MAX_RESULTS_LIMIT
+  );
+
+  // Resolve the requested days in the user's time zone
+  const timeZone = await getUserTimeZone(user_id);
+  const range = resolveDateRange(start_date, end_date, timeZone);
+  if (typeof range === "string") {
+    return toolCallError(toolCall.id, range);
+  }
+  const timeMin = zonedTimeToUtc(range.startDate, 0, 0, timeZone);
+  const timeMax = zonedTimeToUtc(addDays(range.endDate, 1), 0, 0, timeZone);
 
-    // Create Calendar API client
-    const calendar = google.calendar({
-      version: "v3",
-      auth: oAuth2Client
-    });
+  // One page token per calendar when several calendars are queried
+  const pageTokens = decodePageToken(page_token, calendarIds);
+  if (pageTokens === null) {
+    return toolCallError(toolCall.id, "Invalid page_token");
+  }
 
-    // Set auth for all calendar requests
-    const calendarWithAuth = {
-      events: {
-        list: async (params: any) => {
-          return await calendar.events.list({
-            ...params,
-            auth: oAuth2Client,
-          });
-        },
-      },
-    };
+  // Get an OAuth2 client with a fresh access token for this user
+  const oAuth2Client = await getCalendarAuthForUser(user_id);
+  if (!oAuth2Client) {
+    return toolCallError(
+      toolCall.id,
+      "Google Calendar is not connected for this user"
+    );
+  }
 
-    logger.info("Calendar API client created");
+  // Create Calendar API client
+  const calendar = google.calendar({
+    version: "v3",
+    auth: oAuth2Client,
+  });
 
-    // Use hardcoded values for calendar parameters
-    const timeMin = new Date().toISOString();
-    const timeMax = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(); // Default to 1 day from now
-    const maxResults = 50;
-    const calendarId = "primary";
+  const events: CalendarEvent[] = [];
+  const nextPageTokens: Record<string, string> = {};
 
-    logger.info("Calendar parameters set");
+  for (const calendarId of calendarIds) {
+    // When paging, calendars without a token have no more events
+    if (page_token && !pageTokens[calendarId]) {
+      continue;
+    }
 
     // Get events from Calendar API
-    const response = await calendarWithAuth.events.list({
+    const response = await calendar.events.list({
       calendarId,
-      timeMin,
-      timeMax,
+      timeMin: timeMin.toISOString(),
+      timeMax: timeMax.toISOString(),
       maxResults,
+      q: query || undefined,
+      pageToken: pageTokens[calendarId],
       singleEvents: true,
       orderBy: "startTime",
     });
 
-    logger.info("Events retrieved from Calendar API");
-    logger.info("Events: " + response.data.items);
-
-    // Process the events
-    const events =
-      response.data.items?.map((event) => {
-        return {
-          id: event.id,
-          summary: event.summary,
-          description: event.description,
-          location: event.location,
-          start: event.start,
-          end: event.end,
-          attendees: event.attendees,
-          organizer: event.organizer,
-          status: event.status,
-          htmlLink: event.htmlLink,
-        } as CalendarEvent;
-      }) || [];
-
-    logger.info("Events processed");
-    logger.info("Events: " + events);
-
-    // Return success response in VAPI format
-    res.status(200).json({
-      results: [
-        {
-          toolCallId: toolCall.id,
-          result: {
-            message: "Calendar events retrieved successfully",
-            events: events,
-            total_events: events.length,
-            nextPageToken: response.data.nextPageToken,
-          },
-        },
-      ],
-    });
-  } catch (error) {
-    logger.error("Error in getCalendarEvents", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
+    for (const item of response.data.items || []) {
+      events.push({ ...toCalendarEvent(item), calendarId });
+    }
+    if (response.data.nextPageToken) {
+      nextPageTokens[calendarId] = response.data.nextPageToken;
+    }
+  }
+
+  // Merge events from all calendars in start order
+  events.sort((a, b) => getEventStart(a).localeCompare(getEventStart(b)));
+
+  logger.info("Events retrieved from Calendar API", {
+    userId: user_id,
+    calendars: calendarIds.length,
+    events: events.length,
+  });
+
+  // Return events in VAPI format
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      message: "Calendar events retrieved successfully",
+      start_date: range.startDate,
+      end_date: range.endDate,
+      time_zone: timeZone,
+      events: events,
+      total_events: events.length,
+      nextPageToken: encodePageToken(nextPageTokens, calendarIds),
+    },
+  };
+}
+
+/**
+ * Get a sortable start value for an event
+ */
+function getEventStart(event: CalendarEvent): string {
+  return event.start.dateTime
+    ? new Date(event.start.dateTime).toISOString()
+    : event.start.date || "";
+}
+
+/**
+ * Decode the page token passed back by the assistant
+ * Returns an empty map when not paging and null for an invalid token.
+ */
+function decodePageToken(
+  pageToken: string | undefined,
+  calendarIds: string[]
+): Record<string, string> | null {
+  if (!pageToken) {
+    return {};
+  }
+  if (calendarIds.length === 1) {
+    return { [calendarIds[0]]: pageToken };
+  }
+
+  try {
+    const tokens = JSON.parse(
+      Buffer.from(pageToken, "base64url").toString("utf8")
+    );
+    return tokens && typeof tokens === "object" ? tokens : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode the next page tokens so they can be passed back in one value
+ */
+function encodePageToken(
+  nextPageTokens: Record<string, string>,
+  calendarIds: string[]
+): string | undefined {
+  if (Object.keys(nextPageTokens).length === 0) {
+    return undefined;
+  }
+  if (calendarIds.length === 1) {
+    return nextPageTokens[calendarIds[0]];
   }
-});
+  return Buffer.from(JSON.stringify(nextPageTokens)).toString("base64url");
+}
@@ -1,14 +1,14 @@
 /**
  * Get To-Do List Endpoint
  */
-import { onRequest } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
-import {
-  ToDoItem,
-  VapiRequest,
-  GetToDoFunctionCall,
-} from "./types/todoTypes.js";
+import { VapiToolCall, GetToDoFunctionCall } from "./types/todoTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { getTodayForUser } from "./services/timezone.js";
+import { createToolEndpoint, toolCallError } from "./services/vapiTools.js";
+import { toToDoItems } from "./services/toDoCompat.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
 
 // Initialize Firestore
 const db = getFirestore();
@@ -19,139 +19,76 @@ const API_KEY = process.env.JOURNAL_API_KEY || "";
 /**
  * HTTP-triggered function that retrieves today's to-do list for a user
  */
-export const getTodayToDoList = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Full request object", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
+export const getTodayToDoList = createToolEndpoint(
+  "getTodayToDoList",
+  [API_KEY],
+  getToDoList
+);
 
-    // Only allow POST requests (since VAPI sends data via POST)
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
-
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
-
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
-
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { arguments: args } = toolCall.function as GetToDoFunctionCall;
-    const { user_id } = args;
-
-    // Validate user_id
-    if (!user_id) {
-      res.status(400).json({
-        success: false,
-        error: "Missing user_id in request",
-        code: 400,
-      });
-      return;
-    }
-
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split("T")[0];
-
-    // Reference to today's to-do list document
-    const todoListRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("to_do_list")
-      .doc(today);
-
-    // Get the document
-    const doc = await todoListRef.get();
-
-
-    if (!doc.exists) {
-      logger.info("No document exists for today", { today });
-      // Return empty list if no document exists for today
-      res.status(200).json({
-        results: [
-          {
-            toolCallId: toolCall.id,
-            result: {
-              message: "No to-do list found for today",
-              date: today,
-              items: [],
-              total_items: 0,
-              completed_items: 0,
-            },
-          },
-        ],
-      });
-      return;
-    }
-
-    logger.info("Document exists", { doc });
-
-    const data = doc.data();
-    const items = (data?.items || []) as ToDoItem[];
-
-    // Calculate statistics
-    const totalItems = items.length;
-    const completedItems = items.filter((item) => item.isComplete).length;
-
-    logger.info("toolCallId", toolCall.id );
+/**
+ * Retrieves today's to-do list for the user in a single tool call
+ * The list is today's planner tasks, returned as to-do items
+ */
+export async function getToDoList(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as GetToDoFunctionCall;
+  const { user_id } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
 
-    // Return success response with items and statistics in VAPI format
-    res.status(200).json({
-      results: [
-        {
-          toolCallId: toolCall.id,
-          result: {
-            message: "To-do list retrieved successfully",
-            date: today,
-            items: items,
-            total_items: totalItems,
-            completed_items: completedItems,
-          },
-        },
-      ],
-    });
-  } catch (error) {
-    logger.error("Error in getTodayToDoList", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
+  // Get today's date in YYYY-MM-DD format in the user's time zone
+  const today = await getTodayForUser(user_id);
+
+  // Move today's items over if the migration has not reached this user
+  await migrateToDoDay(user_id, today);
+
+  // To-do items are stored as tasks in today's planner
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(today);
+
+  // Get the document
+  const doc = await plannerRef.get();
+
+  if (!doc.exists) {
+    logger.info("No document exists for today", { today });
+    // Return empty list if no document exists for today
+    return {
+      toolCallId: toolCall.id,
+      result: {
+        message: "No to-do list found for today",
+        date: today,
+        items: [],
+        total_items: 0,
+        completed_items: 0,
+        version: 0,
+      },
+    };
   }
-});
+
+  const data = doc.data();
+  const items = toToDoItems(data);
+
+  // Calculate statistics
+  const totalItems = items.length;
+  const completedItems = items.filter((item) => item.isComplete).length;
+
+  // Return items and statistics in VAPI format
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      message: "To-do list retrieved successfully",
+      date: today,
+      items: items,
+      total_items: totalItems,
+      completed_items: completedItems,
+      version: data?.version || 0,
+    },
+  };
+}
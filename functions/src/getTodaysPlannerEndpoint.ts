@@ -1,14 +1,27 @@
 /**
  * Get Today's Planner Endpoint
  */
-import { onRequest } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
 import {
   PlannerDocument,
-  VapiRequest,
+  VapiToolCall,
   GetPlannerFunctionCall,
 } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { getTodayForUser } from "./services/timezone.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
+import { createToolEndpoint, toolCallError } from "./services/vapiTools.js";
+import {
+  createEmptyMealPlan,
+  getNutritionTotals,
+  normalizeMealPlan,
+} from "./services/mealPlanning.js";
+import {
+  TASK_SORT_ORDERS,
+  getTaskCounts,
+  sortTasks,
+} from "./services/taskFields.js";
 
 // Initialize Firestore
 const db = getFirestore();
@@ -19,140 +32,88 @@ const API_KEY = process.env.VAPI_API_KEY || "";
 /**
  * HTTP-triggered function that retrieves today's planner for a user
  */
-export const getTodaysPlanner = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Full request object", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
-
-    // Only allow POST requests (since VAPI sends data via POST)
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
+export const getTodaysPlanner = createToolEndpoint(
+  "getTodaysPlanner",
+  [API_KEY],
+  getPlanner
+);
 
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
+/**
+ * Retrieves today's planner for the user in a single tool call
+ */
+export async function getPlanner(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as GetPlannerFunctionCall;
+  const { user_id, sort_by } = args;
 
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
 
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { arguments: args } = toolCall.function as GetPlannerFunctionCall;
-    const { user_id } = args;
+  if (sort_by !== undefined && !TASK_SORT_ORDERS.includes(sort_by)) {
+    return toolCallError(
+      toolCall.id,
+      `Invalid sort_by: ${sort_by}. Allowed values: ${TASK_SORT_ORDERS.join(
+        ", "
+      )}`
+    );
+  }
 
-    // Validate user_id
-    if (!user_id) {
-      res.status(400).json({
-        success: false,
-        error: "Missing user_id in request",
-        code: 400,
-      });
-      return;
-    }
+  // Get today's date in YYYY-MM-DD format in the user's time zone
+  const today = await getTodayForUser(user_id);
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split("T")[0];
+  // Move today's to-do items over if the migration has not reached this user
+  await migrateToDoDay(user_id, today);
 
-    // Reference to today's planner document
-    const plannerRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("planner")
-      .doc(today);
+  // Reference to today's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(today);
 
-    // Get the document
-    const doc = await plannerRef.get();
+  // Get the document
+  const doc = await plannerRef.get();
 
-    if (!doc.exists) {
-      logger.info("No planner exists for today", { today });
-      // Return empty planner if no document exists for today
-      res.status(200).json({
-        results: [
-          {
-            toolCallId: toolCall.id,
-            result: {
-              message: "No planner found for today",
-              date: today,
-              tasks: [],
-              meals: {
-                breakfast: "",
-                lunch: "",
-                snacks: "",
-                dinner: "",
-              },
-              total_tasks: 0,
-              completed_tasks: 0,
-            },
-          },
-        ],
-      });
-      return;
-    }
+  if (!doc.exists) {
+    logger.info("No planner exists for today", { today });
+    // Return empty planner if no document exists for today
+    return {
+      toolCallId: toolCall.id,
+      result: {
+        message: "No planner found for today",
+        date: today,
+        tasks: [],
+        meals: createEmptyMealPlan(),
+        nutrition: { calories: 0, protein: 0 },
+        total_tasks: 0,
+        completed_tasks: 0,
+        total_steps: 0,
+        completed_steps: 0,
+        version: 0,
+      },
+    };
+  }
 
-    const data = doc.data() as PlannerDocument;
+  const data = doc.data() as PlannerDocument;
 
-    // Calculate task statistics
-    const totalTasks = data.tasks.length;
-    const completedTasks = data.tasks.filter((task) => task.isComplete).length;
+  // Older planners store each meal as a description string
+  const meals = normalizeMealPlan(data.meals);
 
-    // Return success response with planner data and statistics in VAPI format
-    res.status(200).json({
-      results: [
-        {
-          toolCallId: toolCall.id,
-          result: {
-            message: "Planner retrieved successfully",
-            date: today,
-            tasks: data.tasks,
-            meals: data.meals,
-            total_tasks: totalTasks,
-            completed_tasks: completedTasks,
-          },
-        },
-      ],
-    });
-  } catch (error) {
-    logger.error("Error in getTodaysPlanner", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
-  }
-});
+  // Return planner data and statistics in VAPI format
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      message: "Planner retrieved successfully",
+      date: today,
+      tasks: sort_by ? sortTasks(data.tasks, sort_by) : data.tasks,
+      sorted_by: sort_by || null,
+      meals,
+      nutrition: getNutritionTotals(meals),
+      ...getTaskCounts(data.tasks),
+      version: data.version || 0,
+    },
+  };
+}
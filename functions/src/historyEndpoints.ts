@@ -0,0 +1,212 @@
+/**
+ * To-Do List and Planner History Endpoints
+ * Read the lists and planners of any date or date range, with per-day
+ * completion stats, for the assistant and the app
+ */
+import { onRequest } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import {
+  GetToDoListsFunctionCall,
+  VapiToolCall as ToDoVapiToolCall,
+} from "./types/todoTypes.js";
+import {
+  GetPlannersFunctionCall,
+  VapiToolCall as PlannerVapiToolCall,
+} from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { toolCallError } from "./services/vapiTools.js";
+import { getRequestUserId } from "./services/appAuth.js";
+import {
+  HistoryRange,
+  getPlannerDays,
+  getToDoDays,
+  resolveHistoryRange,
+} from "./services/dayHistory.js";
+
+/**
+ * Share of completed items, rounded to two decimals
+ */
+function completionRate(completed: number, total: number): number {
+  return total > 0 ? Math.round((completed / total) * 100) / 100 : 0;
+}
+
+/**
+ * Build the to-do history result for a range
+ */
+async function buildToDoHistory(userId: string, range: HistoryRange) {
+  const days = await getToDoDays(userId, range);
+  const totalItems = days.reduce((sum, day) => sum + day.total_items, 0);
+  const completedItems = days.reduce(
+    (sum, day) => sum + day.completed_items,
+    0
+  );
+
+  return {
+    message: "To-do lists retrieved successfully",
+    start_date: range.startDate,
+    end_date: range.endDate,
+    time_zone: range.timeZone,
+    days,
+    total_items: totalItems,
+    completed_items: completedItems,
+    completion_rate: completionRate(completedItems, totalItems),
+  };
+}
+
+/**
+ * Build the planner history result for a range
+ */
+async function buildPlannerHistory(userId: string, range: HistoryRange) {
+  const days = await getPlannerDays(userId, range);
+  const totalTasks = days.reduce((sum, day) => sum + day.total_tasks, 0);
+  const completedTasks = days.reduce(
+    (sum, day) => sum + day.completed_tasks,
+    0
+  );
+
+  return {
+    message: "Planners retrieved successfully",
+    start_date: range.startDate,
+    end_date: range.endDate,
+    time_zone: range.timeZone,
+    days,
+    total_tasks: totalTasks,
+    completed_tasks: completedTasks,
+    completion_rate: completionRate(completedTasks, totalTasks),
+  };
+}
+
+/**
+ * Retrieves the to-do lists for a date or date range in a single tool call
+ */
+export async function getToDoLists(
+  toolCall: ToDoVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as GetToDoListsFunctionCall;
+  const { user_id, date, start_date, end_date } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const range = await resolveHistoryRange(user_id, date, start_date, end_date);
+  if (typeof range === "string") {
+    return toolCallError(toolCall.id, range);
+  }
+
+  return {
+    toolCallId: toolCall.id,
+    result: await buildToDoHistory(user_id, range),
+  };
+}
+
+/**
+ * Retrieves the planners for a date or date range in a single tool call
+ */
+export async function getPlanners(
+  toolCall: PlannerVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as GetPlannersFunctionCall;
+  const { user_id, date, start_date, end_date } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const range = await resolveHistoryRange(user_id, date, start_date, end_date);
+  if (typeof range === "string") {
+    return toolCallError(toolCall.id, range);
+  }
+
+  return {
+    toolCallId: toolCall.id,
+    result: await buildPlannerHistory(user_id, range),
+  };
+}
+
+/**
+ * Create an app endpoint that reads history for the signed-in user
+ * Accepts date, start_date and end_date query parameters and requires a
+ * Firebase ID token as a Bearer token.
+ */
+function createHistoryEndpoint(
+  name: string,
+  buildHistory: (userId: string, range: HistoryRange) => Promise<object>
+) {
+  return onRequest(async (req, res) => {
+    try {
+      // Only allow GET requests
+      if (req.method !== "GET") {
+        res.status(405).json({
+          success: false,
+          error: "Method not allowed. Please use GET.",
+          code: 405,
+        });
+        return;
+      }
+
+      // Validate the Firebase ID token from headers
+      const userId = await getRequestUserId(req);
+      if (!userId) {
+        logger.warn(`Unauthorized ${name} attempt`, { ip: req.ip });
+        res.status(401).json({
+          success: false,
+          error: "Unauthorized: Invalid or missing ID token",
+          code: 401,
+        });
+        return;
+      }
+
+      const query = (key: string) =>
+        typeof req.query[key] === "string"
+          ? (req.query[key] as string)
+          : undefined;
+      const range = await resolveHistoryRange(
+        userId,
+        query("date"),
+        query("start_date"),
+        query("end_date")
+      );
+      if (typeof range === "string") {
+        res.status(400).json({ success: false, error: range, code: 400 });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ...(await buildHistory(userId, range)),
+      });
+    } catch (error) {
+      logger.error(`Error in ${name}`, {
+        error:
+          error instanceof Error
+            ? { message: error.message, stack: error.stack }
+            : error,
+      });
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  });
+}
+
+/**
+ * HTTP-triggered function that returns the signed-in user's to-do lists
+ * for a date or date range
+ */
+export const getToDoHistory = createHistoryEndpoint(
+  "getToDoHistory",
+  buildToDoHistory
+);
+
+/**
+ * HTTP-triggered function that returns the signed-in user's planners for
+ * a date or date range
+ */
+export const getPlannerHistory = createHistoryEndpoint(
+  "getPlannerHistory",
+  buildPlannerHistory
+);
@@ -38,8 +38,29 @@ export const updateTaskCompletion = updateTaskCompletionEndpoint.updateTaskCompl
 import * as updateMealsEndpoint from "./updateMealsEndpoint";
 export const updateMeals = updateMealsEndpoint.updateMeals;
 
+// History of to-do lists and planners for the app
+export { getToDoHistory, getPlannerHistory } from "./historyEndpoints";
+
+// Versioned writes from the app
+export { appWrite } from "./appWriteEndpoint";
+
+// Single dispatch endpoint for all Vapi tools
+export { vapiTools } from "./vapiToolsEndpoint";
+
+// Call status and end-of-call reports sent by Vapi
+export { vapiServerMessages } from "./vapiServerMessagesEndpoint";
+
+// Scheduled jobs
+export { scheduleDailyCalls } from "./scheduledCallJobs";
+export { rolloverUnfinishedItemsDaily } from "./dailyRolloverJob";
+export { migrateToDoListsToPlanner } from "./toDoMigrationJob";
+
 // Calendar functions
 export { getCalendarEvents } from "./getCalendarEventsEndpoint";
+export {
+  connectGoogleCalendar,
+  googleCalendarCallback,
+} from "./calendarAuthEndpoints";
 
 // Import and re-export service integrations
 // These are not directly exposed as Cloud Functions but can be used by other functions
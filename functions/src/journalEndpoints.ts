@@ -1,12 +1,35 @@
 /**
- * Create To-Do List Endpoint
+ * Journal Endpoints
+ * Create to-do lists, and write and list journal entries. The journal
+ * tools are served through the vapiTools dispatch endpoint.
  */
-import { onRequest } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
 import { initializeApp } from "firebase-admin/app";
-import { v4 as uuidv4 } from "uuid";
-import { CreateToDoArguments, ToDoItem, VapiRequest } from "./types/todoTypes.js";
+import { CreateToDoArguments, VapiToolCall } from "./types/todoTypes.js";
+import { PlannerDocument, TaskItem } from "./types/plannerTypes.js";
+import {
+  AppendJournalEntryFunctionCall,
+  CreateJournalEntryFunctionCall,
+  GetJournalEntriesFunctionCall,
+  JournalEntry,
+  JournalVapiToolCall,
+} from "./types/journalTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { resolveTargetDate } from "./services/dateRanges.js";
+import {
+  ToolCallError,
+  createToolEndpoint,
+  toolCallError,
+} from "./services/vapiTools.js";
+import {
+  getJournalDays,
+  resolveHistoryRange,
+} from "./services/dayHistory.js";
+import { runVersionedUpdate } from "./services/versionedDocuments.js";
+import { createEmptyMealPlan } from "./services/mealPlanning.js";
+import { createToDoTask, toToDoItems } from "./services/toDoCompat.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
 
 // Initialize Firebase Admin
 initializeApp();
@@ -17,173 +40,350 @@ const db = getFirestore();
 // API key for authentication
 const API_KEY = process.env.JOURNAL_API_KEY || "";
 
+// Constants
+const MAX_JOURNAL_LENGTH = 10000; // Maximum characters per journal entry
+const MAX_TAGS = 20; // Maximum tags per journal entry
+const MAX_TAG_LENGTH = 50; // Maximum characters per tag
+const MIN_MOOD = 1;
+const MAX_MOOD = 10;
+const DEFAULT_JOURNAL_PERIOD = "this week";
+const MAX_JOURNAL_DAYS = 366; // Longest range a journal search can cover
+
 /**
  * HTTP-triggered function that creates a to-do list entry for a user
  * This can be called from external services via HTTPS
  */
-export const createToDoList = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Full request object", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
-
-    // Only allow POST requests
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
+export const createToDoList = createToolEndpoint(
+  "createToDoList",
+  [API_KEY],
+  addToDoItems
+);
 
-    // Validate if request body exists
-    if (!req.body) {
-      logger.error("Request body is missing");
-      res.status(400).json({
-        success: false,
-        error: "Request body is required",
-        code: 400,
-      });
-      return;
-    }
+/**
+ * Adds items to a day's to-do list in a single tool call
+ * Items are added as tasks to the day's planner
+ */
+export async function addToDoItems(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { to_do_list, expected_version, date } = toolCall.function
+    .arguments as CreateToDoArguments;
+  let { user_id } = toolCall.function.arguments;
 
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
+  // Validate to_do_list
+  if (!Array.isArray(to_do_list) || to_do_list.length === 0) {
+    logger.warn("Invalid to_do_list", { to_do_list });
+    return toolCallError(toolCall.id, "Invalid or empty to_do_list");
+  }
 
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
+  // Use default user ID if not provided
+  if (!user_id) {
+    logger.warn(
+      "No user_id found in VAPI request. Using default user id: default_user"
+    );
+    user_id = "default_user";
+  }
+
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's items over if the migration has not reached this user
+  await migrateToDoDay(user_id, targetDate);
+
+  // Convert new items to unfinished tasks
+  const now = new Date();
+  const newTasks: TaskItem[] = to_do_list.map((item) =>
+    createToDoTask(item, now)
+  );
 
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { to_do_list } = toolCall.function.arguments as CreateToDoArguments;
-    let { user_id } = toolCall.function.arguments;
-
-    // Validate to_do_list
-    if (!Array.isArray(to_do_list) || to_do_list.length === 0) {
-      logger.warn("Invalid to_do_list", { to_do_list });
-      res.status(400).json({
-        success: false,
-        error: "Invalid or empty to_do_list",
-        code: 400,
-      });
-      return;
+  // To-do items are stored as tasks in the day's planner
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  // Append the new items in a transaction so concurrent writes are not lost
+  const { result, version } = await runVersionedUpdate(
+    plannerRef,
+    expected_version,
+    (existingData) => {
+      if (existingData) {
+        // If the planner exists, add the new tasks after the existing ones
+        const combinedTasks = [...(existingData.tasks || []), ...newTasks];
+        return {
+          data: {
+            tasks: combinedTasks,
+            lastModified: now,
+            modifiedBy: toolCall.id,
+          },
+          result: {
+            message: "To-do list updated successfully",
+            items: toToDoItems({ ...existingData, tasks: combinedTasks }),
+          },
+        };
+      }
+
+      // If no planner exists, create one
+      const newPlanner: PlannerDocument = {
+        tasks: newTasks,
+        meals: createEmptyMealPlan(),
+        createdAt: now,
+        lastModified: now,
+        modifiedBy: toolCall.id,
+      };
+      return {
+        data: newPlanner,
+        result: {
+          message: "To-do list created successfully",
+          items: toToDoItems(newPlanner),
+        },
+      };
     }
+  );
 
-    // Use default user ID if not provided
-    if (!user_id) {
-      logger.warn(
-        "No user_id found in VAPI request. Using default user id: default_user"
-      );
-      user_id = "default_user";
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      success: true,
+      message: result.message,
+      timestamp: now.toISOString(),
+      date: targetDate,
+      items: result.items,
+      itemsAdded: newTasks.length,
+      version,
+    },
+  };
+}
+
+/**
+ * Check the text, mood and tags of a journal write
+ * Returns an error message, or null if the values are valid
+ */
+function validateJournalFields(
+  text: unknown,
+  mood: unknown,
+  tags: unknown
+): string | null {
+  if (typeof text !== "string" || !text.trim()) {
+    return "text must be a non-empty string";
+  }
+
+  if (
+    mood !== undefined &&
+    (!Number.isInteger(mood) ||
+      (mood as number) < MIN_MOOD ||
+      (mood as number) > MAX_MOOD)
+  ) {
+    return `mood must be a whole number from ${MIN_MOOD} to ${MAX_MOOD}`;
+  }
+
+  if (
+    tags !== undefined &&
+    (!Array.isArray(tags) ||
+      tags.length > MAX_TAGS ||
+      tags.some(
+        (tag) =>
+          typeof tag !== "string" || !tag.trim() || tag.length > MAX_TAG_LENGTH
+      ))
+  ) {
+    return `tags must be a list of up to ${MAX_TAGS} words of at most ${MAX_TAG_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Lowercase, trim and deduplicate tags
+ */
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()))];
+}
+
+/**
+ * Reference to a day's journal entry
+ */
+function journalEntryRef(userId: string, date: string) {
+  return db.collection("users").doc(userId).collection("journal").doc(date);
+}
+
+/**
+ * Creates the journal entry for a day in a single tool call
+ */
+export async function createJournalEntry(
+  toolCall: JournalVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as CreateJournalEntryFunctionCall;
+  const { user_id, text, mood, tags, date } = args;
+
+  // Validate request data
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const validationError = validateJournalFields(text, mood, tags);
+  if (validationError) {
+    return toolCallError(toolCall.id, validationError);
+  }
+
+  if (text.length > MAX_JOURNAL_LENGTH) {
+    return toolCallError(
+      toolCall.id,
+      `Journal entry too long. Maximum length: ${MAX_JOURNAL_LENGTH} characters`
+    );
+  }
+
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  const now = new Date();
+  const entry: JournalEntry = {
+    date: targetDate,
+    text: text.trim(),
+    ...(mood !== undefined && { mood }),
+    tags: normalizeTags(tags || []),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // Only one entry per day; later reflections are appended to it
+  const { version } = await runVersionedUpdate(
+    journalEntryRef(user_id, targetDate),
+    undefined,
+    (current) => {
+      if (current) {
+        throw new ToolCallError(
+          `A journal entry already exists for ${targetDate}. Use appendJournalEntry to add to it.`,
+          409
+        );
+      }
+      return { data: entry, result: null };
     }
+  );
+
+  logger.info("Journal entry created", {
+    userId: user_id,
+    date: targetDate,
+  });
+
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      success: true,
+      message: "Journal entry created successfully",
+      timestamp: now.toISOString(),
+      entry: { ...entry, version },
+    },
+  };
+}
+
+/**
+ * Appends to the journal entry for a day in a single tool call
+ */
+export async function appendJournalEntry(
+  toolCall: JournalVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as AppendJournalEntryFunctionCall;
+  const { user_id, text, mood, tags, date, expected_version } = args;
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split("T")[0];
-
-    // Convert new items to ToDoItem objects with isComplete status
-    const newTodoItems: ToDoItem[] = to_do_list.map((item) => ({
-      id: uuidv4(),
-      text: item,
-      isComplete: false, // Default to not completed
-      createdAt: new Date(),
-    }));
-
-    // Reference to the customer's to_do_list subcollection
-    const todoListRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("to_do_list")
-      .doc(today);
-
-    // Check if document already exists for today
-    const existingDoc = await todoListRef.get();
-
-    if (existingDoc.exists) {
-      // If document exists, merge new items with existing ones
-      const existingData = existingDoc.data();
-      const existingItems = existingData?.items || [];
-
-      // Combine existing and new items
-      const combinedItems = [...existingItems, ...newTodoItems];
-
-      // Update the document
-      await todoListRef.update({
-        items: combinedItems,
-        updated_at: new Date(),
-        vapi_tool_call_id: toolCall.id,
-      });
-
-      // Return success response with combined items
-      res.status(200).json({
-        success: true,
-        message: "To-do list updated successfully",
-        timestamp: new Date().toISOString(),
-        date: today,
-        tool_call_id: toolCall.id,
-        items: combinedItems,
-        itemsAdded: newTodoItems.length,
-      });
-    } else {
-      // If no document exists, create new one
-      await todoListRef.set({
-        items: newTodoItems,
-        created_at: new Date(),
-        updated_at: new Date(),
-        vapi_tool_call_id: toolCall.id,
-      });
-
-      // Return success response
-      res.status(200).json({
-        success: true,
-        message: "To-do list created successfully",
-        timestamp: new Date().toISOString(),
-        date: today,
-        tool_call_id: toolCall.id,
-        items: newTodoItems,
-        itemsAdded: newTodoItems.length,
-      });
+  // Validate request data
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const validationError = validateJournalFields(text, mood, tags);
+  if (validationError) {
+    return toolCallError(toolCall.id, validationError);
+  }
+
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  const now = new Date();
+  const { result: entry, version } = await runVersionedUpdate(
+    journalEntryRef(user_id, targetDate),
+    expected_version,
+    (current) => {
+      const existing = current as JournalEntry | undefined;
+      const combinedText = existing
+        ? `${existing.text}\n\n${text.trim()}`
+        : text.trim();
+      if (combinedText.length > MAX_JOURNAL_LENGTH) {
+        throw new ToolCallError(
+          `Journal entry too long. Maximum length: ${MAX_JOURNAL_LENGTH} characters`
+        );
+      }
+
+      const updated: JournalEntry = {
+        date: targetDate,
+        text: combinedText,
+        ...(existing?.mood !== undefined && { mood: existing.mood }),
+        ...(mood !== undefined && { mood }),
+        tags: normalizeTags([...(existing?.tags || []), ...(tags || [])]),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+      return { data: updated, result: updated };
     }
-  } catch (error) {
-    // Enhanced error logging
-    logger.error("Error in createToDoList", {
-      error:
-        error instanceof Error
-          ? {
-              message: error.message,
-              stack: error.stack,
-            }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
+  );
+
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      success: true,
+      message: "Journal entry updated successfully",
+      timestamp: now.toISOString(),
+      entry: { ...entry, version },
+    },
+  };
+}
+
+/**
+ * Lists journal entries for a date or date range in a single tool call
+ */
+export async function getJournalEntries(
+  toolCall: JournalVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as GetJournalEntriesFunctionCall;
+  const { user_id, date, start_date, end_date, tag, query } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
   }
-});
+
+  const range = await resolveHistoryRange(
+    user_id,
+    date || (start_date || end_date ? undefined : DEFAULT_JOURNAL_PERIOD),
+    start_date,
+    end_date,
+    MAX_JOURNAL_DAYS
+  );
+  if (typeof range === "string") {
+    return toolCallError(toolCall.id, range);
+  }
+
+  // Filter by tag and text after reading the range
+  const tagFilter = tag ? tag.trim().toLowerCase() : "";
+  const queryFilter = query ? query.trim().toLowerCase() : "";
+  const entries = (await getJournalDays(user_id, range)).filter(
+    (entry) =>
+      (!tagFilter || (entry.tags || []).includes(tagFilter)) &&
+      (!queryFilter || entry.text.toLowerCase().includes(queryFilter))
+  );
+
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      message:
+        entries.length > 0
+          ? "Journal entries retrieved successfully"
+          : "No journal entries found",
+      start_date: range.startDate,
+      end_date: range.endDate,
+      time_zone: range.timeZone,
+      entries,
+      total_entries: entries.length,
+    },
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Meal Planning Tools
+ * Plan a week of meals in one call and turn them into a checkable grocery
+ * list stored under users/{id}/grocery_lists/{weekStart}.
+ * These are served through the vapiTools dispatch endpoint.
+ */
+import * as logger from "firebase-functions/logger";
+import { getFirestore } from "firebase-admin/firestore";
+import {
+  CheckGroceryItemsFunctionCall,
+  GroceryItem,
+  GroceryListDocument,
+  GroceryListFunctionCall,
+  GroceryVapiToolCall,
+  PlanWeekMealsFunctionCall,
+} from "./types/groceryTypes.js";
+import { MealPlan, PartialMealPlan } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { ToolCallError, toolCallError } from "./services/vapiTools.js";
+import {
+  DateRange,
+  getWeekRange,
+  isIsoDate,
+  resolveDatePhrase,
+  resolveTargetDate,
+} from "./services/dateRanges.js";
+import { addDays, getUserTimeZone } from "./services/timezone.js";
+import { getPlannerDays } from "./services/dayHistory.js";
+import {
+  buildGroceryItems,
+  mergeMealsIntoPlanner,
+  validateMeals,
+} from "./services/mealPlanning.js";
+import { runVersionedUpdate } from "./services/versionedDocuments.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
+
+// Initialize Firestore
+const db = getFirestore();
+
+// Constants
+const DEFAULT_WEEK = "this week";
+const WEEKDAYS = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+/**
+ * Resolve a week_of argument to the Monday to Sunday week it falls in
+ */
+async function resolveWeek(
+  userId: string,
+  weekOf?: string
+): Promise<DateRange> {
+  const timeZone = await getUserTimeZone(userId);
+  const range = resolveDatePhrase(weekOf || DEFAULT_WEEK, timeZone);
+  if (!range) {
+    throw new ToolCallError(
+      `Invalid week_of: ${weekOf}. Use this week, next week or a YYYY-MM-DD date`
+    );
+  }
+  return getWeekRange(range.startDate);
+}
+
+/**
+ * Resolve a weekday name or date to a date key within the week
+ */
+function resolveDayOfWeek(day: unknown, week: DateRange): string | null {
+  if (typeof day !== "string") {
+    return null;
+  }
+
+  const normalized = day.trim().toLowerCase();
+  if (isIsoDate(normalized)) {
+    return normalized >= week.startDate && normalized <= week.endDate
+      ? normalized
+      : null;
+  }
+
+  const index = WEEKDAYS.indexOf(normalized);
+  if (index === -1) {
+    return null;
+  }
+  return addDays(week.startDate, index);
+}
+
+/**
+ * Reference to the grocery list of a week
+ */
+function groceryListRef(userId: string, week: DateRange) {
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("grocery_lists")
+    .doc(week.startDate);
+}
+
+/**
+ * Build the tool result for a grocery list
+ */
+function groceryListResult(
+  toolCall: GroceryVapiToolCall,
+  message: string,
+  week: DateRange,
+  items: GroceryItem[],
+  version: number
+): VapiToolCallResult {
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      success: true,
+      message,
+      timestamp: new Date().toISOString(),
+      week_start: week.startDate,
+      week_end: week.endDate,
+      items,
+      total_items: items.length,
+      checked_items: items.filter((item) => item.isChecked).length,
+      version,
+    },
+  };
+}
+
+/**
+ * Sets the meals for several days of a week in a single tool call
+ */
+export async function planWeekMeals(
+  toolCall: GroceryVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as PlanWeekMealsFunctionCall;
+  const { user_id, week_of, days } = args;
+
+  // Validate required fields
+  if (!user_id || !Array.isArray(days) || days.length === 0) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id or days"
+    );
+  }
+
+  if (days.length > WEEKDAYS.length) {
+    return toolCallError(
+      toolCall.id,
+      `Too many days. Maximum allowed: ${WEEKDAYS.length}`
+    );
+  }
+
+  const week = await resolveWeek(user_id, week_of);
+
+  // Validate every day before writing any of them
+  const plannedDays: { date: string; meals: PartialMealPlan }[] = [];
+  for (const dayPlan of days) {
+    const { day, ...meals } = dayPlan || {};
+    const date = resolveDayOfWeek(day, week);
+    if (!date) {
+      return toolCallError(
+        toolCall.id,
+        `Invalid day: ${day}. Use a weekday name or a date between ${week.startDate} and ${week.endDate}`
+      );
+    }
+
+    if (plannedDays.some((planned) => planned.date === date)) {
+      return toolCallError(toolCall.id, `Duplicate day: ${day}`);
+    }
+
+    const mealsError = validateMeals(meals);
+    if (mealsError) {
+      return toolCallError(toolCall.id, `${day}: ${mealsError}`);
+    }
+
+    // Rejects days outside the planning window
+    await resolveTargetDate(user_id, date);
+
+    plannedDays.push({ date, meals });
+  }
+
+  const results: { date: string; meals: MealPlan; version: number }[] = [];
+  for (const { date, meals } of plannedDays) {
+    // Move the day's to-do items over if the migration has not reached
+    // this user
+    await migrateToDoDay(user_id, date);
+
+    const plannerRef = db
+      .collection("users")
+      .doc(user_id)
+      .collection("planner")
+      .doc(date);
+    const { result, version } = await mergeMealsIntoPlanner(
+      plannerRef,
+      undefined,
+      meals,
+      toolCall.id
+    );
+    results.push({ date, meals: result, version });
+  }
+
+  logger.info("Week meals planned", {
+    userId: user_id,
+    weekStart: week.startDate,
+    days: results.length,
+  });
+
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      success: true,
+      message: `Meals planned for ${results.length} day(s)`,
+      timestamp: new Date().toISOString(),
+      operation_id: toolCall.id,
+      week_start: week.startDate,
+      week_end: week.endDate,
+      days: results,
+    },
+  };
+}
+
+/**
+ * Builds the week's grocery list from its planned meals in a single tool
+ * call. Regenerating keeps the checked state of items still needed.
+ */
+export async function generateGroceryList(
+  toolCall: GroceryVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as GroceryListFunctionCall;
+  const { user_id, week_of } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const week = await resolveWeek(user_id, week_of);
+  const days = await getPlannerDays(user_id, week);
+
+  const now = new Date();
+  const { result: items, version } = await runVersionedUpdate(
+    groceryListRef(user_id, week),
+    undefined,
+    (current) => {
+      const items = buildGroceryItems(
+        days,
+        (current?.items || []) as GroceryItem[]
+      );
+      if (current) {
+        return { data: { items, updatedAt: now }, result: items };
+      }
+
+      const newList: GroceryListDocument = {
+        weekStart: week.startDate,
+        weekEnd: week.endDate,
+        items,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return { data: newList, result: items };
+    }
+  );
+
+  return groceryListResult(
+    toolCall,
+    items.length > 0
+      ? "Grocery list generated successfully"
+      : "No meals planned for this week",
+    week,
+    items,
+    version
+  );
+}
+
+/**
+ * Retrieves the week's grocery list in a single tool call
+ */
+export async function getGroceryList(
+  toolCall: GroceryVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as GroceryListFunctionCall;
+  const { user_id, week_of } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const week = await resolveWeek(user_id, week_of);
+  const doc = await groceryListRef(user_id, week).get();
+
+  if (!doc.exists) {
+    return groceryListResult(
+      toolCall,
+      "No grocery list found for this week. Generate one first.",
+      week,
+      [],
+      0
+    );
+  }
+
+  const data = doc.data() as GroceryListDocument;
+  return groceryListResult(
+    toolCall,
+    "Grocery list retrieved successfully",
+    week,
+    data.items || [],
+    data.version || 0
+  );
+}
+
+/**
+ * Checks or unchecks grocery items in a single tool call
+ */
+export async function checkGroceryItems(
+  toolCall: GroceryVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as CheckGroceryItemsFunctionCall;
+  const { user_id, week_of, item_ids, is_checked, expected_version } = args;
+
+  // Validate request data
+  if (
+    !user_id ||
+    !Array.isArray(item_ids) ||
+    item_ids.length === 0 ||
+    item_ids.some((id) => typeof id !== "string")
+  ) {
+    return toolCallError(
+      toolCall.id,
+      "Invalid request. Must provide user_id and item_ids array."
+    );
+  }
+
+  if (is_checked !== undefined && typeof is_checked !== "boolean") {
+    return toolCallError(toolCall.id, "is_checked must be a boolean");
+  }
+
+  const week = await resolveWeek(user_id, week_of);
+  const isChecked = is_checked !== false;
+
+  const { result: items, version } = await runVersionedUpdate(
+    groceryListRef(user_id, week),
+    expected_version,
+    (current) => {
+      if (!current) {
+        throw new ToolCallError("No grocery list found for this week", 404);
+      }
+
+      const items = (current.items || []) as GroceryItem[];
+      const missing = item_ids.filter(
+        (id) => !items.some((item) => item.id === id)
+      );
+      if (missing.length > 0) {
+        throw new ToolCallError(
+          `Grocery item not found: ${missing.join(", ")}`,
+          404
+        );
+      }
+
+      const updated = items.map((item) =>
+        item_ids.includes(item.id) ? { ...item, isChecked } : item
+      );
+      return {
+        data: { items: updated, updatedAt: new Date() },
+        result: updated,
+      };
+    }
+  );
+
+  return groceryListResult(
+    toolCall,
+    isChecked ? "Grocery items checked off" : "Grocery items unchecked",
+    week,
+    items,
+    version
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Productivity Stats Tool
+ * Completion rates, streaks, busiest weekdays and most skipped items for
+ * a period, so the assistant can give feedback on the weekly call.
+ * Served through the vapiTools dispatch endpoint.
+ */
+import {
+  GetProductivityStatsFunctionCall,
+  StatsVapiToolCall,
+} from "./types/statsTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { toolCallError } from "./services/vapiTools.js";
+import { resolveHistoryRange } from "./services/dayHistory.js";
+import { getProductivityStats } from "./services/productivityStats.js";
+
+// Constants
+const DEFAULT_PERIOD = "this week";
+const MAX_STATS_DAYS = 366; // Longest period stats can cover
+
+/**
+ * Computes productivity stats for a period in a single tool call
+ */
+export async function getProductivityStatsForPeriod(
+  toolCall: StatsVapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as GetProductivityStatsFunctionCall;
+  const { user_id, date, start_date, end_date } = args;
+
+  // Validate user_id
+  if (!user_id) {
+    return toolCallError(toolCall.id, "Missing user_id in request");
+  }
+
+  const range = await resolveHistoryRange(
+    user_id,
+    date || (start_date || end_date ? undefined : DEFAULT_PERIOD),
+    start_date,
+    end_date,
+    MAX_STATS_DAYS
+  );
+  if (typeof range === "string") {
+    return toolCallError(toolCall.id, range);
+  }
+
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      message: "Productivity stats computed successfully",
+      ...(await getProductivityStats(user_id, range)),
+    },
+  };
+}
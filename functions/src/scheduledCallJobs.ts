@@ -0,0 +1,57 @@
+/**
+ * Scheduled Call Jobs
+ */
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import { getFirestore } from "firebase-admin/firestore";
+import { UserProfile } from "./types/userTypes.js";
+import {
+  CALL_TYPES,
+  bookScheduledCall,
+  isCallEnabled,
+} from "./services/scheduledCalls.js";
+
+// Initialize Firestore
+const db = getFirestore();
+
+/**
+ * Scheduled function that books every opted-in user's next morning and
+ * evening call. It runs hourly so users in every time zone get their next
+ * call booked soon after the previous one, and already booked slots are
+ * skipped.
+ */
+export const scheduleDailyCalls = onSchedule("every 60 minutes", async () => {
+  const usersSnapshot = await db.collection("users").get();
+
+  let booked = 0;
+  let failed = 0;
+
+  for (const userDoc of usersSnapshot.docs) {
+    const user = userDoc.data() as UserProfile;
+
+    for (const callType of CALL_TYPES) {
+      if (!isCallEnabled(user, callType)) {
+        continue;
+      }
+
+      try {
+        const record = await bookScheduledCall(userDoc.id, user, callType);
+        if (record) {
+          booked++;
+        }
+      } catch (error) {
+        failed++;
+        logger.error(
+          `Error booking ${callType} call for user ${userDoc.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  logger.info("Daily call scheduling finished", {
+    users: usersSnapshot.size,
+    booked,
+    failed,
+  });
+});
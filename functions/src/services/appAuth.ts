@@ -0,0 +1,28 @@
+/**
+ * App request authentication
+ * Endpoints called by the iOS app authenticate with the signed-in user's
+ * Firebase ID token sent as a Bearer token
+ */
+import {getAuth} from "firebase-admin/auth";
+import {Request} from "firebase-functions/v2/https";
+
+/**
+ * Get the ID of the user who sent an app request
+ * @param {Request} req - The incoming request
+ * @return {Promise<string|null>} The user ID, or null if the ID token is
+ * missing or invalid
+ */
+export async function getRequestUserId(req: Request): Promise<string | null> {
+  const authHeader = req.headers.authorization || "";
+  const idToken = authHeader.startsWith("Bearer ") ?
+    authHeader.slice("Bearer ".length) : "";
+  if (!idToken) {
+    return null;
+  }
+
+  try {
+    return (await getAuth().verifyIdToken(idToken)).uid;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Call history
+ * Stores the outcome of Vapi calls under users/{userId}/calls from the
+ * status-update and end-of-call-report server messages
+ */
+import * as logger from "firebase-functions/logger";
+import {DocumentData, getFirestore} from "firebase-admin/firestore";
+import {
+  CallRecord,
+  VapiEndOfCallReportMessage,
+  VapiServerCall,
+  VapiStatusUpdateMessage,
+} from "../types/callTypes";
+import {ScheduledCallRecord} from "../types/userTypes";
+
+/**
+ * Get the user a call was placed for
+ * scheduleVapiCall puts the user ID in the assistant's variable values.
+ * @param {VapiServerCall} call - The call from a server message
+ * @return {string|null} The user ID, or null for calls we did not place
+ */
+export function getCallUserId(
+  call: VapiServerCall | undefined,
+): string | null {
+  const userId = call?.assistantOverrides?.variableValues?.user_id;
+  return typeof userId === "string" && userId ? userId : null;
+}
+
+/**
+ * Parse an ISO timestamp from a server message
+ * @param {string} value - The timestamp (optional)
+ * @return {Date|undefined} The date, or undefined if missing or invalid
+ */
+function parseTimestamp(value: string | undefined): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Write fields to a call's record, creating the record on first message
+ * New records get the call type of the matching scheduled_calls entry.
+ * @param {string} userId - The user ID
+ * @param {string} callId - The Vapi call ID
+ * @param {Function} update - Builds the fields to write from the stored
+ * record, or returns null to leave the record unchanged
+ * @return {Promise<CallRecord|null>} The record after the write, or null
+ * if nothing was written
+ */
+async function updateCallRecord(
+  userId: string,
+  callId: string,
+  update: (current: CallRecord | undefined) => Partial<CallRecord> | null,
+): Promise<CallRecord | null> {
+  const db = getFirestore();
+  const userRef = db.collection("users").doc(userId);
+  const callRef = userRef.collection("calls").doc(callId);
+  const scheduledRef = userRef.collection("scheduled_calls").doc(callId);
+
+  return db.runTransaction(async (transaction) => {
+    const callDoc = await transaction.get(callRef);
+    const current = callDoc.data() as CallRecord | undefined;
+    const fields = update(current);
+    if (!fields) {
+      return null;
+    }
+
+    const now = new Date();
+    let data: DocumentData = {...fields, updatedAt: now};
+    if (!current) {
+      const scheduled = (await transaction.get(scheduledRef)).data() as
+        | ScheduledCallRecord
+        | undefined;
+      data = {
+        vapiCallId: callId,
+        ...(scheduled && {callType: scheduled.callType}),
+        createdAt: now,
+        ...data,
+      };
+    }
+
+    transaction.set(callRef, data, {merge: true});
+    return {...current, ...data} as CallRecord;
+  });
+}
+
+/**
+ * Record a status-update message
+ * Updates that arrive after the call ended are ignored, so a late
+ * "ringing" cannot overwrite "ended".
+ * @param {string} userId - The user ID
+ * @param {VapiStatusUpdateMessage} message - The server message
+ * @return {Promise<CallRecord|null>} The updated record, or null if the
+ * update was ignored
+ */
+export async function recordCallStatus(
+  userId: string,
+  message: VapiStatusUpdateMessage,
+): Promise<CallRecord | null> {
+  return updateCallRecord(userId, message.call.id, (current) => {
+    if (current?.status === "ended") {
+      return null;
+    }
+    return {
+      status: message.status,
+      ...(message.endedReason && {endedReason: message.endedReason}),
+    };
+  });
+}
+
+/**
+ * Record an end-of-call-report message
+ * @param {string} userId - The user ID
+ * @param {VapiEndOfCallReportMessage} message - The server message
+ * @return {Promise<CallRecord>} The updated record
+ */
+export async function recordEndOfCallReport(
+  userId: string,
+  message: VapiEndOfCallReportMessage,
+): Promise<CallRecord> {
+  const startedAt = parseTimestamp(message.startedAt);
+  const endedAt = parseTimestamp(message.endedAt);
+  let durationSeconds = message.durationSeconds;
+  if (typeof durationSeconds !== "number" && startedAt && endedAt) {
+    durationSeconds = Math.round(
+      (endedAt.getTime() - startedAt.getTime()) / 1000,
+    );
+  }
+  const transcript = message.artifact?.transcript ?? message.transcript;
+  const summary = message.analysis?.summary ?? message.summary;
+
+  const record = await updateCallRecord(userId, message.call.id, () => ({
+    status: "ended",
+    ...(message.endedReason && {endedReason: message.endedReason}),
+    ...(startedAt && {startedAt}),
+    ...(endedAt && {endedAt}),
+    ...(typeof durationSeconds === "number" && {durationSeconds}),
+    ...(transcript && {transcript}),
+    ...(summary && {summary}),
+  }));
+
+  logger.info(`Recorded end of call ${message.call.id} for user ${userId}`, {
+    endedReason: message.endedReason,
+    durationSeconds,
+  });
+  return record as CallRecord;
+}
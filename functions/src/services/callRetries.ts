@@ -0,0 +1,214 @@
+/**
+ * Missed call retries
+ * Books follow-up calls when a scheduled morning or evening call is not
+ * picked up, and records the outcome of every attempt on its
+ * scheduled_calls entry
+ */
+import * as logger from "firebase-functions/logger";
+import {
+  DocumentReference,
+  FieldValue,
+  getFirestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import {formatTimeString, parseTimeString, scheduleVapiCall} from "./vapi";
+import {CALL_TYPES, isCallEnabled, recordScheduledCall} from "./scheduledCalls";
+import {DEFAULT_USER_SETTINGS} from "./userProvisioning";
+import {getLocalDateString, resolveTimeZone} from "./timezone";
+import {CallRecord} from "../types/callTypes";
+import {CallType, ScheduledCallRecord, UserProfile} from "../types/userTypes";
+
+// Vapi ended reasons that mean the user never talked to the assistant
+export const MISSED_CALL_REASONS = [
+  "customer-did-not-answer",
+  "customer-busy",
+  "voicemail",
+];
+
+// How a user's missed calls are retried
+export interface RetryPolicy {
+  maxRetries: number;
+  gapMinutes: number;
+  windowMinutes: number;
+}
+
+/**
+ * Read a user's retry settings, using the defaults for missing or
+ * invalid values
+ * @param {UserProfile} user - The user profile
+ * @return {RetryPolicy} The policy to apply
+ */
+export function getRetryPolicy(user: UserProfile): RetryPolicy {
+  const setting = (value: number | undefined, fallback: number, min = 0) =>
+    Number.isInteger(value) && (value as number) >= min ?
+      (value as number) :
+      fallback;
+
+  return {
+    maxRetries: setting(
+      user.callRetryAttempts,
+      DEFAULT_USER_SETTINGS.callRetryAttempts,
+    ),
+    // Call times have minute precision, so retries are at least a minute
+    // apart
+    gapMinutes: setting(
+      user.callRetryGapMinutes,
+      DEFAULT_USER_SETTINGS.callRetryGapMinutes,
+      1,
+    ),
+    windowMinutes: setting(
+      user.callWindowMinutes,
+      DEFAULT_USER_SETTINGS.callWindowMinutes,
+    ),
+  };
+}
+
+/**
+ * Claim the retry of a missed call before booking it
+ * Vapi may deliver an end-of-call report more than once, so only the
+ * delivery that claims the call books its retry.
+ * @param {DocumentReference} scheduledRef - The missed call's
+ * scheduled_calls entry
+ * @return {Promise<boolean>} True if this delivery may book the retry
+ */
+async function claimRetry(scheduledRef: DocumentReference): Promise<boolean> {
+  const db = getFirestore();
+  return db.runTransaction(async (transaction) => {
+    const data = (await transaction.get(scheduledRef)).data() as
+      | ScheduledCallRecord
+      | undefined;
+    if (!data || data.retriedAt || data.retryClaimedAt) {
+      return false;
+    }
+    transaction.update(scheduledRef, {retryClaimedAt: new Date()});
+    return true;
+  });
+}
+
+/**
+ * Record how a scheduled call ended and book a retry if it was missed
+ * A retry is booked while the user still has retries left and the retry
+ * would start before their call window closes.
+ * @param {string} userId - The user ID
+ * @param {CallRecord} call - The call after its end-of-call report
+ * @return {Promise<ScheduledCallRecord|null>} The retry, or null if none
+ * was booked
+ */
+export async function retryMissedCall(
+  userId: string,
+  call: CallRecord,
+): Promise<ScheduledCallRecord | null> {
+  const userRef = getFirestore().collection("users").doc(userId);
+  const scheduledRef = userRef
+    .collection("scheduled_calls")
+    .doc(call.vapiCallId);
+  const scheduledDoc = await scheduledRef.get();
+  if (!scheduledDoc.exists) {
+    // Not a call we booked
+    return null;
+  }
+
+  // Record the outcome of this attempt
+  await scheduledRef.update({
+    ...(call.endedReason && {endedReason: call.endedReason}),
+    endedAt: call.endedAt || new Date(),
+  });
+
+  const data = scheduledDoc.data() || {};
+  const scheduled = data as ScheduledCallRecord;
+  const callType = scheduled.callType as CallType;
+  if (
+    !call.endedReason ||
+    !MISSED_CALL_REASONS.includes(call.endedReason) ||
+    !CALL_TYPES.includes(callType) ||
+    scheduled.retriedAt ||
+    scheduled.retryClaimedAt
+  ) {
+    return null;
+  }
+
+  // Calls the user turned off since are not retried
+  const user = (await userRef.get()).data() as UserProfile | undefined;
+  if (!user || !isCallEnabled(user, callType)) {
+    return null;
+  }
+
+  const policy = getRetryPolicy(user);
+  const attempt = scheduled.attempt || 1;
+  if (attempt > policy.maxRetries) {
+    logger.info(
+      `No retries left for missed ${callType} call ${call.vapiCallId} ` +
+      `of user ${userId}`,
+      {attempt},
+    );
+    return null;
+  }
+
+  // The window is measured from the first call, not from the last retry
+  const windowEndsAt = data.windowEndsAt ?
+    (data.windowEndsAt as Timestamp).toDate() :
+    new Date(
+      (data.scheduledFor as Timestamp).toDate().getTime() +
+      policy.windowMinutes * 60000,
+    );
+  const retryAt = new Date(Date.now() + policy.gapMinutes * 60000);
+  if (retryAt > windowEndsAt) {
+    logger.info(
+      `Call window closed for missed ${callType} call ${call.vapiCallId} ` +
+      `of user ${userId}`,
+      {windowEndsAt: windowEndsAt.toISOString()},
+    );
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(user.timeZone);
+  const callTime = formatTimeString(retryAt, timeZone);
+  const scheduledFor = parseTimeString(callTime, timeZone);
+  if (!scheduledFor) {
+    return null;
+  }
+
+  if (!(await claimRetry(scheduledRef))) {
+    logger.info(
+      `Retry of missed ${callType} call ${call.vapiCallId} ` +
+      `of user ${userId} was already claimed`,
+    );
+    return null;
+  }
+
+  const response = await scheduleVapiCall(
+    userId,
+    user.name as string,
+    user.phoneNumber as string,
+    callTime,
+    callType,
+    timeZone,
+  );
+  if (!response) {
+    // Release the claim so a later delivery can try again
+    await scheduledRef.update({retryClaimedAt: FieldValue.delete()});
+    return null;
+  }
+
+  const retry = await recordScheduledCall(userId, response, {
+    callType,
+    callTime,
+    timeZone,
+    date: getLocalDateString(timeZone, scheduledFor),
+    scheduledFor,
+    attempt: attempt + 1,
+    retryOf: scheduled.retryOf || call.vapiCallId,
+    windowEndsAt,
+  });
+  await scheduledRef.update({
+    retryCallId: retry.vapiCallId,
+    retriedAt: new Date(),
+  });
+
+  logger.info(
+    `Booked retry ${attempt} of missed ${callType} call ` +
+    `${call.vapiCallId} for user ${userId} at ${callTime}`,
+    {endedReason: call.endedReason},
+  );
+  return retry;
+}
@@ -0,0 +1,108 @@
+/**
+ * Daily rollover
+ * Carries unfinished planner tasks from one day's planner into the next
+ * day's, counting how often each task moved
+ */
+import * as logger from "firebase-functions/logger";
+import {getFirestore} from "firebase-admin/firestore";
+import {createEmptyMealPlan} from "./mealPlanning";
+import {migrateToDoDay} from "./toDoMigration";
+import {PlannerDocument, TaskItem} from "../types/plannerTypes";
+import {UserProfile} from "../types/userTypes";
+
+// Written to "modifiedBy" on planners the rollover changes, in place of a
+// tool call ID
+const ROLLOVER_MODIFIED_BY = "dailyRollover";
+
+/**
+ * Check whether the user wants unfinished items carried over
+ * @param {UserProfile} user - The user profile
+ * @return {boolean} True unless the user opted out
+ */
+export function isRolloverEnabled(user: UserProfile): boolean {
+  return user.rolloverEnabled !== false;
+}
+
+/**
+ * Copy the incomplete tasks of a day that the next day does not have yet
+ * @param {TaskItem[]} tasks - Tasks of the source day
+ * @param {TaskItem[]} existing - Tasks already in the target day
+ * @return {TaskItem[]} Copies of the carried tasks with rolloverCount raised
+ */
+function carryIncomplete(tasks: TaskItem[], existing: TaskItem[]): TaskItem[] {
+  const existingIds = new Set(existing.map((task) => task.id));
+  return tasks
+    .filter((task) => !task.isComplete && !existingIds.has(task.id))
+    .map((task) => ({...task, rolloverCount: (task.rolloverCount || 0) + 1}));
+}
+
+/**
+ * Carry a user's unfinished tasks into the next day
+ * The source planner is marked with rolledOverTo so a day is only carried
+ * over once, however often the job runs. To-do items of the source day
+ * that are still in the old to_do_list collection are moved first.
+ * @param {string} userId - The user ID
+ * @param {string} fromDate - Date key of the day that ended
+ * @param {string} toDate - Date key of the new day
+ * @return {Promise<number>} Number of tasks carried
+ */
+export async function rolloverUnfinishedItems(
+  userId: string,
+  fromDate: string,
+  toDate: string,
+): Promise<number> {
+  await migrateToDoDay(userId, fromDate);
+
+  const db = getFirestore();
+  const plannersRef = db.collection("users").doc(userId).collection("planner");
+  const sourceRef = plannersRef.doc(fromDate);
+  const targetRef = plannersRef.doc(toDate);
+
+  const carried = await db.runTransaction(async (transaction) => {
+    const source = await transaction.get(sourceRef);
+    const target = await transaction.get(targetRef);
+    const sourceData = source.data() as PlannerDocument | undefined;
+    if (!sourceData || sourceData.rolledOverTo === toDate) {
+      return 0;
+    }
+
+    const targetData = target.data() as PlannerDocument | undefined;
+    const targetTasks = targetData?.tasks || [];
+    const carriedTasks = carryIncomplete(sourceData.tasks || [], targetTasks);
+
+    if (carriedTasks.length > 0) {
+      // Bump the version so clients holding the old day see a conflict
+      const now = new Date();
+      const version = (targetData?.version || 0) + 1;
+      if (targetData) {
+        transaction.update(targetRef, {
+          tasks: [...targetTasks, ...carriedTasks],
+          lastModified: now,
+          modifiedBy: ROLLOVER_MODIFIED_BY,
+          version,
+        });
+      } else {
+        const newPlanner: PlannerDocument = {
+          tasks: carriedTasks,
+          meals: createEmptyMealPlan(),
+          createdAt: now,
+          lastModified: now,
+          modifiedBy: ROLLOVER_MODIFIED_BY,
+          version,
+        };
+        transaction.set(targetRef, newPlanner);
+      }
+    }
+
+    transaction.update(sourceRef, {rolledOverTo: toDate});
+    return carriedTasks.length;
+  });
+
+  if (carried > 0) {
+    logger.info(
+      `Carried ${carried} unfinished tasks from ${fromDate} to ${toDate} ` +
+      `for user ${userId}`,
+    );
+  }
+  return carried;
+}
@@ -0,0 +1,207 @@
+/**
+ * Date range helpers
+ * Resolves dates the assistant passes ("2025-06-01", "tomorrow",
+ * "this week") into local YYYY-MM-DD date keys for a time zone
+ */
+import {addDays, getLocalDateString, getUserTimeZone} from "./timezone";
+import {ToolCallError} from "./vapiTools";
+
+// How far from today write tools may reach
+export const MAX_DAYS_AHEAD = 30;
+export const MAX_DAYS_BEHIND = 30;
+
+// Inclusive range of local date keys
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check whether a string is a real calendar date in YYYY-MM-DD format
+ * @param {string} value - The value to check
+ * @return {boolean} True for dates such as "2025-06-01"
+ */
+export function isIsoDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    ISO_DATE_REGEX.test(value) &&
+    addDays(value, 0) === value
+  );
+}
+
+/**
+ * Get the day of the week for a date key
+ * @param {string} dateString - Date key such as "2025-06-01"
+ * @return {number} 0 for Sunday through 6 for Saturday
+ */
+export function getWeekday(dateString: string): number {
+  const [year, month, day] = dateString.split("-").map((n) => parseInt(n, 10));
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Count the days in an inclusive date range
+ * @param {DateRange} range - The range
+ * @return {number} Number of days, 1 for a single day
+ */
+export function countDays(range: DateRange): number {
+  const toTime = (dateString: string) => Date.parse(`${dateString}T00:00:00Z`);
+  return Math.round(
+    (toTime(range.endDate) - toTime(range.startDate)) / 86400000,
+  ) + 1;
+}
+
+/**
+ * List every date key in an inclusive range
+ * @param {DateRange} range - The range
+ * @return {string[]} Date keys from startDate to endDate
+ */
+export function listDates(range: DateRange): string[] {
+  const dates: string[] = [];
+  for (
+    let date = range.startDate;
+    date <= range.endDate;
+    date = addDays(date, 1)
+  ) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Get the Monday to Sunday week that contains a date
+ * @param {string} dateString - Date key such as "2025-06-04"
+ * @return {DateRange} The week, e.g. 2025-06-02 to 2025-06-08
+ */
+export function getWeekRange(dateString: string): DateRange {
+  const monday = addDays(dateString, -((getWeekday(dateString) + 6) % 7));
+  return {startDate: monday, endDate: addDays(monday, 6)};
+}
+
+/**
+ * Resolve an ISO date or relative phrase to a range of local dates
+ * Weeks run Monday to Sunday.
+ * @param {string} phrase - "YYYY-MM-DD", "today", "tomorrow", "yesterday",
+ * "this week", "next week" or "last week"
+ * @param {string} timeZone - The user's time zone
+ * @param {Date} now - The current instant (defaults to now)
+ * @return {DateRange|null} The matching range, or null if not understood
+ */
+export function resolveDatePhrase(
+  phrase: string,
+  timeZone: string,
+  now: Date = new Date(),
+): DateRange | null {
+  if (typeof phrase !== "string") {
+    return null;
+  }
+
+  const normalized = phrase.trim().toLowerCase();
+  if (isIsoDate(normalized)) {
+    return {startDate: normalized, endDate: normalized};
+  }
+
+  const today = getLocalDateString(timeZone, now);
+  const singleDay = (date: string) => ({startDate: date, endDate: date});
+  const week = (offsetWeeks: number) =>
+    getWeekRange(addDays(today, offsetWeeks * 7));
+
+  switch (normalized) {
+    case "today":
+      return singleDay(today);
+    case "tomorrow":
+      return singleDay(addDays(today, 1));
+    case "yesterday":
+      return singleDay(addDays(today, -1));
+    case "this week":
+      return week(0);
+    case "next week":
+      return week(1);
+    case "last week":
+      return week(-1);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve optional start and end values into one range
+ * A phrase covering several days ("this week") used as the start also
+ * sets the end unless an end is given.
+ * @param {string} start - Start date or phrase (defaults to "today")
+ * @param {string} end - End date or phrase (optional)
+ * @param {string} timeZone - The user's time zone
+ * @return {DateRange|string} The range, or an error message
+ */
+export function resolveDateRange(
+  start: string | undefined,
+  end: string | undefined,
+  timeZone: string,
+): DateRange | string {
+  const startRange = resolveDatePhrase(start || "today", timeZone);
+  if (!startRange) {
+    return `Invalid start date: ${start}. Use YYYY-MM-DD, today, tomorrow, ` +
+      "yesterday, this week, next week or last week";
+  }
+
+  let endDate = startRange.endDate;
+  if (end) {
+    const endRange = resolveDatePhrase(end, timeZone);
+    if (!endRange) {
+      return `Invalid end date: ${end}. Use YYYY-MM-DD, today, tomorrow, ` +
+        "yesterday, this week, next week or last week";
+    }
+    endDate = endRange.endDate;
+  }
+
+  if (endDate < startRange.startDate) {
+    return "End date must not be before start date";
+  }
+
+  return {startDate: startRange.startDate, endDate};
+}
+
+/**
+ * Resolve the day a write tool targets in the user's time zone
+ * @param {string} userId - The user ID
+ * @param {string} date - "YYYY-MM-DD" or a phrase such as "tomorrow"
+ * (defaults to today)
+ * @return {Promise<string>} The local date key
+ * @throws {ToolCallError} If the date is not understood, covers several
+ * days or is outside the allowed window
+ */
+export async function resolveTargetDate(
+  userId: string,
+  date?: string,
+): Promise<string> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = getLocalDateString(timeZone);
+  if (date === undefined) {
+    return today;
+  }
+
+  const range = resolveDatePhrase(date, timeZone);
+  if (!range) {
+    throw new ToolCallError(
+      `Invalid date: ${date}. Use YYYY-MM-DD, today, tomorrow or yesterday`,
+    );
+  }
+  if (range.startDate !== range.endDate) {
+    throw new ToolCallError(`date must be a single day, got: ${date}`);
+  }
+
+  const target = range.startDate;
+  if (target > addDays(today, MAX_DAYS_AHEAD)) {
+    throw new ToolCallError(
+      `date is too far ahead. Plan at most ${MAX_DAYS_AHEAD} days ahead`,
+    );
+  }
+  if (target < addDays(today, -MAX_DAYS_BEHIND)) {
+    throw new ToolCallError(
+      `date is too far in the past. Edit at most ${MAX_DAYS_BEHIND} days back`,
+    );
+  }
+  return target;
+}
@@ -0,0 +1,159 @@
+/**
+ * Day history
+ * Reads planner and journal documents for a range of dates and computes
+ * per-day completion stats
+ */
+import {DocumentData, FieldPath, getFirestore} from "firebase-admin/firestore";
+import {DateRange, countDays, listDates, resolveDateRange} from "./dateRanges";
+import {getUserTimeZone} from "./timezone";
+import {ToDoDay} from "../types/todoTypes";
+import {toToDoItems} from "./toDoCompat";
+import {migrateToDoRange} from "./toDoMigration";
+import {getNutritionTotals, normalizeMealPlan} from "./mealPlanning";
+import {getTaskCounts} from "./taskFields";
+import {PlannerDay, TaskItem} from "../types/plannerTypes";
+import {JournalEntry} from "../types/journalTypes";
+
+// Longest range a single history request may cover
+export const MAX_HISTORY_DAYS = 31;
+
+// Range of a history request resolved in the user's time zone
+export interface HistoryRange extends DateRange {
+  timeZone: string;
+}
+
+/**
+ * Resolve a date, or a start and end, into a range of local dates
+ * @param {string} userId - The user ID
+ * @param {string} date - Date or phrase for a single request (optional)
+ * @param {string} startDate - Start date or phrase (optional)
+ * @param {string} endDate - End date or phrase (optional)
+ * @param {number} maxDays - Longest range allowed
+ * @return {Promise<HistoryRange|string>} The range, or an error message
+ */
+export async function resolveHistoryRange(
+  userId: string,
+  date?: string,
+  startDate?: string,
+  endDate?: string,
+  maxDays = MAX_HISTORY_DAYS,
+): Promise<HistoryRange | string> {
+  if (date && (startDate || endDate)) {
+    return "Provide either date or start_date/end_date, not both";
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  const range = date ?
+    resolveDateRange(date, undefined, timeZone) :
+    resolveDateRange(startDate, endDate, timeZone);
+  if (typeof range === "string") {
+    return range;
+  }
+
+  if (countDays(range) > maxDays) {
+    return `Date range too long. Maximum: ${maxDays} days`;
+  }
+
+  return {...range, timeZone};
+}
+
+/**
+ * Read the day documents of a collection within a range
+ * Planner reads first move over any to-do lists of the range that have
+ * not been migrated yet.
+ * @param {string} userId - The user ID
+ * @param {string} collection - "planner" or "journal"
+ * @param {DateRange} range - The dates to read
+ * @return {Promise<Map>} Document data keyed by date
+ */
+async function readDays(
+  userId: string,
+  collection: "planner" | "journal",
+  range: DateRange,
+): Promise<Map<string, DocumentData>> {
+  if (collection === "planner") {
+    await migrateToDoRange(userId, range);
+  }
+
+  // Day documents are keyed by YYYY-MM-DD, so IDs sort by date
+  const snapshot = await getFirestore()
+    .collection("users")
+    .doc(userId)
+    .collection(collection)
+    .where(FieldPath.documentId(), ">=", range.startDate)
+    .where(FieldPath.documentId(), "<=", range.endDate)
+    .get();
+
+  return new Map(snapshot.docs.map((doc) => [doc.id, doc.data()]));
+}
+
+/**
+ * Get the to-do list of every day in a range
+ * A day's list is its planner tasks as to-do items; days without a
+ * planner are returned empty.
+ * @param {string} userId - The user ID
+ * @param {DateRange} range - The dates to read
+ * @return {Promise<ToDoDay[]>} One entry per date, oldest first
+ */
+export async function getToDoDays(
+  userId: string,
+  range: DateRange,
+): Promise<ToDoDay[]> {
+  const days = await readDays(userId, "planner", range);
+
+  return listDates(range).map((date) => {
+    const data = days.get(date);
+    const items = toToDoItems(data);
+    return {
+      date,
+      items,
+      total_items: items.length,
+      completed_items: items.filter((item) => item.isComplete).length,
+      version: data?.version || 0,
+    };
+  });
+}
+
+/**
+ * Get the planner of every day in a range
+ * Days without a planner are returned empty.
+ * @param {string} userId - The user ID
+ * @param {DateRange} range - The dates to read
+ * @return {Promise<PlannerDay[]>} One entry per date, oldest first
+ */
+export async function getPlannerDays(
+  userId: string,
+  range: DateRange,
+): Promise<PlannerDay[]> {
+  const days = await readDays(userId, "planner", range);
+
+  return listDates(range).map((date) => {
+    const data = days.get(date);
+    const tasks = (data?.tasks || []) as TaskItem[];
+    const meals = normalizeMealPlan(data?.meals);
+    return {
+      date,
+      tasks,
+      meals,
+      nutrition: getNutritionTotals(meals),
+      ...getTaskCounts(tasks),
+      version: data?.version || 0,
+    };
+  });
+}
+
+/**
+ * Get the journal entries written within a range
+ * @param {string} userId - The user ID
+ * @param {DateRange} range - The dates to read
+ * @return {Promise<JournalEntry[]>} Existing entries, oldest first
+ */
+export async function getJournalDays(
+  userId: string,
+  range: DateRange,
+): Promise<JournalEntry[]> {
+  const days = await readDays(userId, "journal", range);
+  return listDates(range)
+    .filter((date) => days.has(date))
+    .map((date) => ({date, ...days.get(date)}) as JournalEntry);
+}
@@ -0,0 +1,67 @@
+/**
+ * Secret encryption helpers
+ * AES-256-GCM encryption for secrets stored in Firestore, such as OAuth
+ * refresh tokens
+ */
+import {createCipheriv, createDecipheriv, randomBytes} from "crypto";
+
+// 32-byte key, base64 encoded. Generate with: openssl rand -base64 32
+const TOKEN_ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY || "";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+/**
+ * Get the encryption key from the environment
+ * @return {Buffer} The 32-byte key
+ */
+function getKey(): Buffer {
+  const key = Buffer.from(TOKEN_ENCRYPTION_KEY, "base64");
+  if (key.length !== 32) {
+    throw new Error(
+      "TOKEN_ENCRYPTION_KEY must be set to a base64 encoded 32-byte key",
+    );
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret for storage
+ * @param {string} plaintext - The secret to encrypt
+ * @return {string} "iv.authTag.ciphertext", each part base64 encoded
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(".");
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * @param {string} encrypted - "iv.authTag.ciphertext" string
+ * @return {string} The original secret
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, authTag, ciphertext] = encrypted
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error("Encrypted secret is malformed");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,241 @@
+/**
+ * Google Calendar OAuth service
+ * Connects each user's Google Calendar and keeps their refresh token
+ * encrypted under users/{userId}/integrations/google_calendar
+ */
+import * as logger from "firebase-functions/logger";
+import {createHmac, timingSafeEqual} from "crypto";
+import {getFirestore} from "firebase-admin/firestore";
+import {Auth, calendar_v3 as calendarV3, google} from "googleapis";
+import {decryptSecret, encryptSecret} from "./encryption";
+import {
+  CalendarEvent,
+  GoogleCalendarConnection,
+} from "../types/calendarTypes";
+
+// ===== Google OAuth Configuration =====
+// Set these in your Firebase environment variables
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || "";
+const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET || "";
+const GOOGLE_OAUTH_REDIRECT_URI = process.env.GOOGLE_OAUTH_REDIRECT_URI || "";
+const GOOGLE_OAUTH_STATE_SECRET = process.env.GOOGLE_OAUTH_STATE_SECRET || "";
+
+export const CALENDAR_SCOPES = [
+  "https://www.googleapis.com/auth/calendar",
+];
+
+// How long a connect link stays valid
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Get the Firestore document holding a user's calendar connection
+ * @param {string} userId - The user ID
+ * @return {DocumentReference} The connection document
+ */
+function connectionRef(userId: string) {
+  return getFirestore()
+    .collection("users")
+    .doc(userId)
+    .collection("integrations")
+    .doc("google_calendar");
+}
+
+/**
+ * Create an OAuth2 client for the app's Google credentials
+ * @return {Auth.OAuth2Client} A client without user credentials
+ */
+function createOAuthClient(): Auth.OAuth2Client {
+  if (
+    !GOOGLE_CLIENT_ID ||
+    !GOOGLE_CLIENT_SECRET ||
+    !GOOGLE_OAUTH_REDIRECT_URI
+  ) {
+    throw new Error(
+      "GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET and GOOGLE_OAUTH_REDIRECT_URI " +
+      "must be set in environment variables",
+    );
+  }
+  return new google.auth.OAuth2(
+    GOOGLE_CLIENT_ID,
+    GOOGLE_CLIENT_SECRET,
+    GOOGLE_OAUTH_REDIRECT_URI,
+  );
+}
+
+/**
+ * Sign a state payload
+ * @param {string} payload - The payload to sign
+ * @return {string} Base64url encoded HMAC-SHA256
+ */
+function sign(payload: string): string {
+  if (!GOOGLE_OAUTH_STATE_SECRET) {
+    throw new Error("GOOGLE_OAUTH_STATE_SECRET is not set");
+  }
+  return createHmac("sha256", GOOGLE_OAUTH_STATE_SECRET)
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Build a signed, expiring OAuth state value for a user
+ * @param {string} userId - The user ID
+ * @return {string} The state value passed through Google's consent screen
+ */
+function createState(userId: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({userId, expiresAt: Date.now() + STATE_TTL_MS}),
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify an OAuth state value and extract the user ID
+ * @param {string} state - The state returned by Google
+ * @return {string|null} The user ID, or null if invalid or expired
+ */
+export function verifyState(state: string): string | null {
+  const [payload, signature] = state.split(".");
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const provided = Buffer.from(signature);
+  if (
+    expected.length !== provided.length ||
+    !timingSafeEqual(expected, provided)
+  ) {
+    return null;
+  }
+
+  try {
+    const {userId, expiresAt} = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8"),
+    );
+    if (typeof userId !== "string" || Date.now() > expiresAt) {
+      return null;
+    }
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the Google consent URL for connecting a user's calendar
+ * @param {string} userId - The user ID
+ * @return {string} URL to open in the user's browser
+ */
+export function getAuthUrl(userId: string): string {
+  return createOAuthClient().generateAuthUrl({
+    access_type: "offline",
+    // Always ask for consent so Google returns a refresh token
+    prompt: "consent",
+    scope: CALENDAR_SCOPES,
+    state: createState(userId),
+  });
+}
+
+/**
+ * Exchange an authorization code and store the user's refresh token
+ * @param {string} userId - The user ID
+ * @param {string} code - Authorization code from the OAuth callback
+ * @return {Promise<void>}
+ */
+export async function connectCalendar(
+  userId: string,
+  code: string,
+): Promise<void> {
+  const {tokens} = await createOAuthClient().getToken(code);
+  if (!tokens.refresh_token) {
+    throw new Error("Google did not return a refresh token");
+  }
+
+  const now = new Date();
+  const connection: GoogleCalendarConnection = {
+    encryptedRefreshToken: encryptSecret(tokens.refresh_token),
+    scope: tokens.scope || CALENDAR_SCOPES.join(" "),
+    connectedAt: now,
+    updatedAt: now,
+  };
+  await connectionRef(userId).set(connection);
+
+  logger.info(`Connected Google Calendar for user ${userId}`);
+}
+
+/**
+ * Get an authorized OAuth2 client for a user's calendar
+ * Refreshes the access token up front so a revoked connection is reported
+ * before any Calendar API call is made.
+ * @param {string} userId - The user ID
+ * @return {Promise<Auth.OAuth2Client|null>} The client, or null if the
+ * user has not connected (or has revoked) their calendar
+ */
+export async function getCalendarAuthForUser(
+  userId: string,
+): Promise<Auth.OAuth2Client | null> {
+  const doc = await connectionRef(userId).get();
+  const connection = doc.data() as GoogleCalendarConnection | undefined;
+  if (!connection?.encryptedRefreshToken) {
+    return null;
+  }
+
+  const oAuth2Client = createOAuthClient();
+  oAuth2Client.setCredentials({
+    refresh_token: decryptSecret(connection.encryptedRefreshToken),
+  });
+
+  // Google may rotate the refresh token while refreshing
+  oAuth2Client.on("tokens", (tokens) => {
+    if (tokens.refresh_token) {
+      connectionRef(userId)
+        .update({
+          encryptedRefreshToken: encryptSecret(tokens.refresh_token),
+          updatedAt: new Date(),
+        })
+        .catch((error) => {
+          logger.error(
+            `Error saving rotated refresh token for user ${userId}:`,
+            error,
+          );
+        });
+    }
+  });
+
+  try {
+    await oAuth2Client.getAccessToken();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Google Calendar token refresh failed for user ${userId}`, {
+      error: message,
+    });
+    // invalid_grant means the user revoked access or the token expired
+    if (message.includes("invalid_grant")) {
+      await connectionRef(userId).delete();
+      return null;
+    }
+    throw error;
+  }
+
+  return oAuth2Client;
+}
+
+/**
+ * Map a Google Calendar API event to our CalendarEvent shape
+ * @param {calendarV3.Schema$Event} event - Event returned by the API
+ * @return {CalendarEvent} The event as returned to the assistant
+ */
+export function toCalendarEvent(event: calendarV3.Schema$Event): CalendarEvent {
+  return {
+    id: event.id,
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    start: event.start,
+    end: event.end,
+    attendees: event.attendees,
+    organizer: event.organizer,
+    status: event.status,
+    htmlLink: event.htmlLink,
+  } as CalendarEvent;
+}
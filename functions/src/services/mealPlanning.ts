@@ -0,0 +1,388 @@
+/**
+ * Meal planning
+ * Validates and merges meal items into planner documents, reads older
+ * description-only meals as items and turns a week of meals into a
+ * deduplicated grocery list
+ */
+import {DocumentReference} from "firebase-admin/firestore";
+import {v4 as uuidv4} from "uuid";
+import {runVersionedUpdate} from "./versionedDocuments";
+import {
+  MealItem,
+  MealItemInput,
+  MealPlan,
+  MealType,
+  NutritionTotals,
+  PartialMealPlan,
+  PlannerDay,
+  PlannerDocument,
+  StoredMealPlan,
+} from "../types/plannerTypes";
+import {GroceryItem} from "../types/groceryTypes";
+
+export const MEAL_TYPES: MealType[] = [
+  "breakfast",
+  "lunch",
+  "snacks",
+  "dinner",
+];
+
+// Maximum characters per meal description
+export const MAX_MEAL_LENGTH = 1000;
+
+// Maximum items per meal and characters per item name or quantity
+const MAX_MEAL_ITEMS = 30;
+const MAX_MEAL_ITEM_LENGTH = 200;
+
+// Separators between ingredients in a meal description, used only for the
+// grocery list. "and" and "with" are not separators, since they are part of
+// dish names such as "mac and cheese".
+const INGREDIENT_SEPARATOR = /\s*[,;\n]\s*/;
+
+// Leading amounts and filler words dropped when matching ingredients,
+// e.g. "2 cups of rice" and "some rice" both match "rice"
+const QUANTITY_WORDS = [
+  "\\d+(?:[./]\\d+)?",
+  "a", "an", "some", "few", "handful", "half", "one", "two", "three", "four",
+  "cups?", "tbsp", "tsp", "g", "kg", "ml", "l", "oz", "lbs?",
+  "slices?", "pieces?", "bowls?", "of",
+];
+const LEADING_QUANTITY =
+  new RegExp(`^(?:(?:${QUANTITY_WORDS.join("|")})\\s+)+`, "i");
+
+/**
+ * Check a list of meal items sent by the assistant
+ * @param {unknown} items - The items argument
+ * @param {string} label - Name used in error messages, e.g. "breakfast"
+ * @return {string|null} An error message, or null if the items are valid
+ */
+export function validateMealItems(
+  items: unknown,
+  label: string,
+): string | null {
+  if (!Array.isArray(items)) {
+    return `${label} must be a string or a list of items`;
+  }
+
+  if (items.length > MAX_MEAL_ITEMS) {
+    return `Too many ${label} items. Maximum allowed: ${MAX_MEAL_ITEMS}`;
+  }
+
+  const isAmount = (value: unknown) =>
+    value === undefined ||
+    (typeof value === "number" && Number.isFinite(value) && value >= 0);
+
+  for (const item of items as MealItemInput[]) {
+    if (
+      !item ||
+      typeof item.name !== "string" ||
+      !item.name.trim() ||
+      item.name.length > MAX_MEAL_ITEM_LENGTH
+    ) {
+      return `Each ${label} item must have a name of at most ` +
+        `${MAX_MEAL_ITEM_LENGTH} characters`;
+    }
+
+    if (
+      item.quantity !== undefined &&
+      (typeof item.quantity !== "string" ||
+        item.quantity.length > MAX_MEAL_ITEM_LENGTH)
+    ) {
+      return `${item.name}: quantity must be a short string such as "2 cups"`;
+    }
+
+    if (!isAmount(item.calories) || !isAmount(item.protein)) {
+      return `${item.name}: calories and protein must be non-negative numbers`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a partial meal plan sent by the assistant
+ * @param {unknown} meals - The meals argument
+ * @return {string|null} An error message, or null if the meals are valid
+ */
+export function validateMeals(meals: unknown): string | null {
+  if (!meals || typeof meals !== "object" || Array.isArray(meals)) {
+    return "meals must be an object";
+  }
+
+  const providedMealTypes = Object.keys(meals) as MealType[];
+
+  // Check if at least one meal type is provided
+  if (providedMealTypes.length === 0) {
+    return "At least one meal type must be provided " +
+      "(breakfast, lunch, snacks, dinner)";
+  }
+
+  // Validate only the provided meal types
+  for (const mealType of providedMealTypes) {
+    if (!MEAL_TYPES.includes(mealType)) {
+      return `Invalid meal type: ${mealType}. ` +
+        `Allowed types: ${MEAL_TYPES.join(", ")}`;
+    }
+
+    const mealValue = (meals as PartialMealPlan)[mealType];
+    if (typeof mealValue === "string") {
+      if (mealValue.length > MAX_MEAL_LENGTH) {
+        return `${mealType} description too long. ` +
+          `Maximum length: ${MAX_MEAL_LENGTH} characters`;
+      }
+      continue;
+    }
+
+    const itemsError = validateMealItems(mealValue, mealType);
+    if (itemsError) {
+      return itemsError;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build stored meal items from the assistant's input
+ * @param {MealItemInput[]} inputs - Items to store
+ * @return {MealItem[]} Items with IDs and only the fields that are set
+ */
+export function createMealItems(inputs: MealItemInput[]): MealItem[] {
+  return inputs.map((input) => ({
+    id: typeof input.id === "string" && input.id ? input.id : uuidv4(),
+    name: input.name.trim(),
+    ...(input.quantity !== undefined && {quantity: input.quantity.trim()}),
+    ...(input.calories !== undefined && {calories: input.calories}),
+    ...(input.protein !== undefined && {protein: input.protein}),
+  }));
+}
+
+/**
+ * Read a stored meal as a list of items
+ * A description string from an older planner is read as one item named
+ * with the full text. Its ID is derived from the meal slot, so it stays
+ * the same until the meal is written again.
+ * @param {unknown} meal - Stored meal, a string or a list of items
+ * @param {MealType} mealType - The meal slot, used in derived IDs
+ * @return {MealItem[]} The meal's items
+ */
+export function toMealItems(meal: unknown, mealType: MealType): MealItem[] {
+  if (Array.isArray(meal)) {
+    return meal as MealItem[];
+  }
+  if (typeof meal !== "string") {
+    return [];
+  }
+  return meal.trim() ? [{id: `${mealType}-1`, name: meal.trim()}] : [];
+}
+
+/**
+ * Read stored meals as lists of items
+ * @param {object} meals - Stored meals (may be missing or partial)
+ * @return {MealPlan} Every meal slot as a list of items
+ */
+export function normalizeMealPlan(
+  meals?: Partial<StoredMealPlan> | null,
+): MealPlan {
+  return {
+    breakfast: toMealItems(meals?.breakfast, "breakfast"),
+    lunch: toMealItems(meals?.lunch, "lunch"),
+    snacks: toMealItems(meals?.snacks, "snacks"),
+    dinner: toMealItems(meals?.dinner, "dinner"),
+  };
+}
+
+/**
+ * Create a meal plan with every slot empty
+ * @return {MealPlan} Empty meals
+ */
+export function createEmptyMealPlan(): MealPlan {
+  return normalizeMealPlan();
+}
+
+/**
+ * Sum calories and protein over every meal of a day
+ * @param {MealPlan} meals - The day's meals
+ * @return {NutritionTotals} Totals; items without values count as zero
+ */
+export function getNutritionTotals(meals: MealPlan): NutritionTotals {
+  const items = MEAL_TYPES.flatMap((mealType) => meals[mealType]);
+  const sum = (field: "calories" | "protein") =>
+    Math.round(
+      items.reduce((total, item) => total + (item[field] || 0), 0) * 10,
+    ) / 10;
+
+  return {calories: sum("calories"), protein: sum("protein")};
+}
+
+/**
+ * Change the meals of a planner document in a transaction
+ * Stored description strings are converted to items before the change.
+ * @param {DocumentReference} plannerRef - The day's planner document
+ * @param {number|undefined} expectedVersion - Version the client last saw
+ * @param {string} modifiedBy - Tool call ID or job making the change
+ * @param {Function} change - Builds the new meals from the current ones.
+ * It may throw a ToolCallError to abort.
+ * @return {Promise<object>} The day's meals after the change and the new
+ * version
+ */
+export async function updatePlannerMeals(
+  plannerRef: DocumentReference,
+  expectedVersion: number | undefined,
+  modifiedBy: string,
+  change: (meals: MealPlan) => MealPlan,
+): Promise<{result: MealPlan; version: number}> {
+  const now = new Date();
+  return runVersionedUpdate(plannerRef, expectedVersion, (current) => {
+    if (!current) {
+      // Create new planner document with default empty meals, then update
+      // with provided meals
+      const newPlanner: PlannerDocument = {
+        tasks: [],
+        meals: change(createEmptyMealPlan()),
+        createdAt: now,
+        lastModified: now,
+        modifiedBy,
+      };
+      return {data: newPlanner, result: newPlanner.meals as MealPlan};
+    }
+
+    // Merge existing meals with new meals
+    const updatedMeals = change(normalizeMealPlan(current.meals));
+
+    return {
+      data: {
+        meals: updatedMeals,
+        lastModified: now,
+        modifiedBy,
+      },
+      result: updatedMeals,
+    };
+  });
+}
+
+/**
+ * Replace whole meals of a planner document in a transaction
+ * @param {DocumentReference} plannerRef - The day's planner document
+ * @param {number|undefined} expectedVersion - Version the client last saw
+ * @param {PartialMealPlan} meals - The meals to replace, as description
+ * strings or lists of items
+ * @param {string} modifiedBy - Tool call ID or job making the change
+ * @return {Promise<object>} The day's meals after the merge and the new
+ * version
+ */
+export async function mergeMealsIntoPlanner(
+  plannerRef: DocumentReference,
+  expectedVersion: number | undefined,
+  meals: PartialMealPlan,
+  modifiedBy: string,
+): Promise<{result: MealPlan; version: number}> {
+  const replacements: Partial<MealPlan> = {};
+  for (const mealType of Object.keys(meals) as MealType[]) {
+    const meal = meals[mealType];
+    // A description string is kept whole as a single item
+    replacements[mealType] = typeof meal === "string" ?
+      createMealItems(meal.trim() ? [{name: meal.trim()}] : []) :
+      createMealItems(meal || []);
+  }
+
+  return updatePlannerMeals(
+    plannerRef,
+    expectedVersion,
+    modifiedBy,
+    (current) => ({...current, ...replacements}),
+  );
+}
+
+/**
+ * Split a meal description into ingredient lines
+ * @param {string} meal - Meal description such as "oats, banana, milk"
+ * @return {string[]} Trimmed ingredient lines such as ["oats", "banana",
+ * "milk"]
+ */
+export function parseIngredients(meal: string): string[] {
+  return meal
+    .split(INGREDIENT_SEPARATOR)
+    .map((line) => line.trim().replace(/\.$/, ""))
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Get the ingredient name of an ingredient line
+ * @param {string} line - Ingredient line such as "2 cups of Rice"
+ * @return {string} Lowercase name without amounts, such as "rice"
+ */
+export function getIngredientName(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(LEADING_QUANTITY, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Get the key used to match the same ingredient across meals
+ * @param {string} line - Ingredient line such as "2 Bananas"
+ * @return {string} Ingredient name without a plural "s"
+ */
+export function getIngredientKey(line: string): string {
+  const name = getIngredientName(line);
+  // Naive singular so "banana" and "bananas" match, but not "hummus"
+  return /[^su]s$/.test(name) ? name.slice(0, -1) : name;
+}
+
+/**
+ * Build a grocery list from a week of planners
+ * Items already on the previous list keep their ID and checked state.
+ * @param {PlannerDay[]} days - The week's planners
+ * @param {GroceryItem[]} previous - Items of the list being regenerated
+ * @return {GroceryItem[]} One item per ingredient, in order of first use
+ */
+export function buildGroceryItems(
+  days: PlannerDay[],
+  previous: GroceryItem[] = [],
+): GroceryItem[] {
+  const previousByKey = new Map(
+    previous.map((item) => [getIngredientKey(item.name), item]),
+  );
+  const items = new Map<string, GroceryItem>();
+
+  for (const day of days) {
+    for (const mealType of MEAL_TYPES) {
+      // Items such as "oats, banana" hold several ingredients; the
+      // quantity only applies to an item with a single one
+      const lines = day.meals[mealType].flatMap((item) => {
+        const ingredients = parseIngredients(item.name);
+        return ingredients.length === 1 && item.quantity ?
+          [`${item.quantity} ${ingredients[0]}`] :
+          ingredients;
+      });
+
+      for (const line of lines) {
+        const key = getIngredientKey(line);
+        if (!key) {
+          continue;
+        }
+
+        const source = `${day.date} ${mealType}`;
+        const existing = items.get(key);
+        if (existing) {
+          existing.lines.push(line);
+          existing.meals.push(source);
+          continue;
+        }
+
+        const kept = previousByKey.get(key);
+        items.set(key, {
+          id: kept?.id || uuidv4(),
+          name: getIngredientName(line),
+          lines: [line],
+          meals: [source],
+          isChecked: kept?.isChecked || false,
+        });
+      }
+    }
+  }
+
+  return [...items.values()];
+}
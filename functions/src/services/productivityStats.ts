@@ -0,0 +1,190 @@
+/**
+ * Productivity stats
+ * Summarizes a period of planner history: completion rates, streaks of
+ * days with everything done, busiest weekdays and the items most often
+ * left unfinished
+ */
+import {getLocalDateString} from "./timezone";
+import {getWeekday} from "./dateRanges";
+import {HistoryRange, getPlannerDays} from "./dayHistory";
+import {
+  CompletionStats,
+  ProductivityStats,
+  SkippedItem,
+  WeekdayStats,
+} from "../types/statsTypes";
+
+// Number of skipped items reported
+const MAX_SKIPPED_ITEMS = 5;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// What was planned and finished on one day
+interface DayItems {
+  date: string;
+  items: {text: string; isComplete: boolean}[];
+}
+
+/**
+ * Build completion stats for a number of items
+ * @param {number} total - Items planned
+ * @param {number} completed - Items finished
+ * @return {CompletionStats} Counts and completion rate
+ */
+function completionStats(total: number, completed: number): CompletionStats {
+  return {
+    total,
+    completed,
+    completion_rate:
+      total > 0 ? Math.round((completed / total) * 100) / 100 : 0,
+  };
+}
+
+/**
+ * Check whether everything planned on a day was finished
+ * @param {DayItems} day - The day's items
+ * @return {boolean} True for days with items that are all complete
+ */
+function isPerfectDay(day: DayItems): boolean {
+  return day.items.length > 0 && day.items.every((item) => item.isComplete);
+}
+
+/**
+ * Count perfect days in a row. Days with nothing planned are skipped
+ * rather than breaking a streak.
+ * @param {DayItems[]} days - Days oldest first
+ * @param {string} today - Today's date key, which does not break the
+ * current streak while it is still unfinished
+ * @return {object} Current and longest streak in days
+ */
+function getStreaks(days: DayItems[], today: string) {
+  let longest = 0;
+  let running = 0;
+  for (const day of days) {
+    if (day.items.length === 0) {
+      continue;
+    }
+    running = isPerfectDay(day) ? running + 1 : 0;
+    longest = Math.max(longest, running);
+  }
+
+  let current = 0;
+  for (let i = days.length - 1; i >= 0; i--) {
+    const day = days[i];
+    if (day.items.length === 0 || (day.date === today && !isPerfectDay(day))) {
+      continue;
+    }
+    if (!isPerfectDay(day)) {
+      break;
+    }
+    current++;
+  }
+
+  return {current, longest};
+}
+
+/**
+ * Total the items planned and finished on each day of the week
+ * @param {DayItems[]} days - Days in the period
+ * @return {WeekdayStats[]} Weekdays with items, most items first
+ */
+function getBusiestWeekdays(days: DayItems[]): WeekdayStats[] {
+  const weekdays = WEEKDAY_NAMES.map((weekday) => ({
+    weekday,
+    total_items: 0,
+    completed_items: 0,
+  }));
+
+  for (const day of days) {
+    const stats = weekdays[getWeekday(day.date)];
+    stats.total_items += day.items.length;
+    stats.completed_items += day.items.filter((item) => item.isComplete).length;
+  }
+
+  return weekdays
+    .filter((stats) => stats.total_items > 0)
+    .sort((a, b) => b.total_items - a.total_items);
+}
+
+/**
+ * Find the items most often left unfinished
+ * Items are matched by text, so a to-do carried over several days counts
+ * once per day it was skipped.
+ * @param {DayItems[]} days - Days in the period
+ * @return {SkippedItem[]} Most skipped items first
+ */
+function getMostSkipped(days: DayItems[]): SkippedItem[] {
+  const skipped = new Map<string, SkippedItem>();
+
+  for (const day of days) {
+    for (const item of day.items) {
+      const key = item.text.trim().toLowerCase();
+      if (item.isComplete || !key) {
+        continue;
+      }
+      const entry = skipped.get(key) ||
+        {text: item.text.trim(), times_skipped: 0};
+      entry.times_skipped++;
+      skipped.set(key, entry);
+    }
+  }
+
+  return [...skipped.values()]
+    .sort((a, b) => b.times_skipped - a.times_skipped)
+    .slice(0, MAX_SKIPPED_ITEMS);
+}
+
+/**
+ * Compute productivity stats for a user over a range of dates
+ * Days after today are left out, since they cannot be finished yet.
+ * @param {string} userId - The user ID
+ * @param {HistoryRange} range - The period to summarize
+ * @return {Promise<ProductivityStats>} The stats for the period
+ */
+export async function getProductivityStats(
+  userId: string,
+  range: HistoryRange,
+): Promise<ProductivityStats> {
+  const today = getLocalDateString(range.timeZone);
+  const endDate = range.endDate > today ? today : range.endDate;
+  const period = {startDate: range.startDate, endDate};
+
+  // A period that lies entirely in the future has nothing to count
+  const hasPastDays = endDate >= period.startDate;
+  const plannerDays = hasPastDays ? await getPlannerDays(userId, period) : [];
+  const days: DayItems[] = plannerDays.map((day) => ({
+    date: day.date,
+    items: day.tasks,
+  }));
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const tasks = completionStats(
+    sum(plannerDays.map((day) => day.total_tasks)),
+    sum(plannerDays.map((day) => day.completed_tasks)),
+  );
+  const streaks = getStreaks(days, today);
+
+  return {
+    start_date: period.startDate,
+    end_date: endDate,
+    time_zone: range.timeZone,
+    days_planned: days.filter((day) => day.items.length > 0).length,
+    perfect_days: days.filter(isPerfectDay).length,
+    // To-dos are planner tasks, so to_dos is kept only for older clients
+    to_dos: tasks,
+    tasks,
+    overall: tasks,
+    current_streak: streaks.current,
+    longest_streak: streaks.longest,
+    busiest_weekdays: getBusiestWeekdays(days),
+    most_skipped: getMostSkipped(days),
+  };
+}
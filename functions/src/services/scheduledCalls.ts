@@ -0,0 +1,363 @@
+/**
+ * Scheduled call bookkeeping
+ * Books morning/evening calls through Vapi and records each one under
+ * users/{userId}/scheduled_calls so calls can be deduplicated and cancelled
+ */
+import * as logger from "firebase-functions/logger";
+import {FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {
+  scheduleVapiCall,
+  cancelVapiCall,
+  formatTimeString,
+  parseTimeString,
+} from "./vapi";
+import {getLocalDateString, resolveTimeZone} from "./timezone";
+import {
+  CallScheduleFailure,
+  CallType,
+  ScheduledCallRecord,
+  ScheduledCallType,
+  UserProfile,
+} from "../types/userTypes";
+
+// How long after sign-up the welcome call is placed
+const WELCOME_CALL_DELAY_MINUTES = 5;
+
+// Tries at replacing a changed call before the failure is recorded
+const RESCHEDULE_ATTEMPTS = 2;
+
+export const CALL_TYPES: CallType[] = ["morning", "evening"];
+
+// Outcome of cancelling a user's pending calls
+export interface CancelResult {
+  cancelled: number;
+  failed: number; // calls that are still pending and may still fire
+}
+
+/**
+ * Thrown when a call cannot be rebooked because a pending call of the
+ * same type could not be cancelled
+ */
+export class PendingCallNotCancelledError extends Error {
+  failed: number;
+
+  /**
+   * @param {CallType} callType - Type of call being rebooked
+   * @param {number} failed - Pending calls that could not be cancelled
+   */
+  constructor(callType: CallType, failed: number) {
+    super(
+      `${failed} pending ${callType} call(s) could not be cancelled, ` +
+      "so the new call time was not booked",
+    );
+    this.name = "PendingCallNotCancelledError";
+    this.failed = failed;
+  }
+}
+
+/**
+ * Get the scheduled_calls subcollection for a user
+ * @param {string} userId - The user ID
+ * @return {CollectionReference} The scheduled_calls collection
+ */
+function scheduledCallsRef(userId: string) {
+  return getFirestore()
+    .collection("users")
+    .doc(userId)
+    .collection("scheduled_calls");
+}
+
+/**
+ * Get the configured call time for a call type
+ * @param {UserProfile} user - The user profile
+ * @param {CallType} callType - Type of call (morning or evening)
+ * @return {string|undefined} Call time such as "8:00 AM"
+ */
+export function getCallTime(
+  user: UserProfile,
+  callType: CallType,
+): string | undefined {
+  return callType === "morning" ? user.morningCallTime : user.eveningCallTime;
+}
+
+/**
+ * Check whether the user has opted in to a call type
+ * @param {UserProfile} user - The user profile
+ * @param {CallType} callType - Type of call (morning or evening)
+ * @return {boolean} True if calls of this type should be booked
+ */
+export function isCallEnabled(user: UserProfile, callType: CallType): boolean {
+  const enabled = callType === "morning" ?
+    user.morningCallsEnabled : user.eveningCallsEnabled;
+  return enabled !== false &&
+    !!getCallTime(user, callType) &&
+    !!user.phoneNumber &&
+    !!user.name;
+}
+
+/**
+ * Cancel a user's pending calls through Vapi and mark them cancelled
+ * @param {string} userId - The user ID
+ * @param {ScheduledCallType} callType - Only cancel calls of this type
+ * (optional)
+ * @return {Promise<CancelResult>} Number of calls cancelled and of calls
+ * that could not be cancelled
+ */
+export async function cancelScheduledCalls(
+  userId: string,
+  callType?: ScheduledCallType,
+): Promise<CancelResult> {
+  const snapshot = await scheduledCallsRef(userId)
+    .where("status", "==", "scheduled")
+    .get();
+  const now = new Date();
+  let cancelled = 0;
+  let failed = 0;
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const scheduledFor = (data.scheduledFor as Timestamp).toDate();
+
+    // Calls that already started are history, not pending
+    if ((callType && data.callType !== callType) || scheduledFor <= now) {
+      continue;
+    }
+
+    try {
+      if (data.vapiCallId) {
+        const success = await cancelVapiCall(data.vapiCallId);
+        if (!success) {
+          failed++;
+          continue;
+        }
+      }
+
+      await doc.ref.update({
+        status: "cancelled",
+        cancelledAt: new Date(),
+      });
+      cancelled++;
+    } catch (error) {
+      failed++;
+      logger.error(
+        `Error cancelling ${data.callType} call ${doc.id} ` +
+        `for user ${userId}:`,
+        error,
+      );
+    }
+  }
+
+  if (cancelled > 0) {
+    logger.info(
+      `Cancelled ${cancelled} pending call(s) for user ${userId}`,
+      {callType: callType || "all"},
+    );
+  }
+  return {cancelled, failed};
+}
+
+/**
+ * Book the next call of a type for a user and record it
+ * @param {string} userId - The user ID
+ * @param {UserProfile} user - The user profile
+ * @param {CallType} callType - Type of call (morning or evening)
+ * @param {boolean} skipIfBooked - Leave an already booked slot untouched.
+ * When false, pending calls of this type are cancelled and replaced.
+ * @return {Promise<ScheduledCallRecord|null>} The recorded call, or null
+ * if nothing was booked
+ * @throws {PendingCallNotCancelledError} If replacing and a pending call
+ * could not be cancelled; nothing is booked then
+ */
+export async function bookScheduledCall(
+  userId: string,
+  user: UserProfile,
+  callType: CallType,
+  skipIfBooked = true,
+): Promise<ScheduledCallRecord | null> {
+  const callTime = getCallTime(user, callType);
+  if (!callTime || !user.phoneNumber || !user.name) {
+    logger.warn(
+      `Cannot schedule ${callType} call for user ${userId}: ` +
+      "missing call time, phone number or name",
+    );
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(user.timeZone);
+  const scheduledFor = parseTimeString(callTime, timeZone);
+  if (!scheduledFor) {
+    return null;
+  }
+
+  // One slot per local day and call type
+  const date = getLocalDateString(timeZone, scheduledFor);
+
+  if (skipIfBooked) {
+    const existing = await scheduledCallsRef(userId)
+      .where("date", "==", date)
+      .where("callType", "==", callType)
+      .where("status", "==", "scheduled")
+      .limit(1)
+      .get();
+    if (!existing.empty) {
+      logger.info(
+        `Skipping ${callType} call for user ${userId}: ${date} already booked`,
+      );
+      return null;
+    }
+  } else {
+    // Replace: the old call must not fire alongside the new one, so
+    // nothing is booked while an old call could not be cancelled
+    const {failed} = await cancelScheduledCalls(userId, callType);
+    if (failed > 0) {
+      throw new PendingCallNotCancelledError(callType, failed);
+    }
+  }
+
+  const response = await scheduleVapiCall(
+    userId,
+    user.name,
+    user.phoneNumber,
+    callTime,
+    callType,
+    timeZone,
+  );
+  if (!response) {
+    return null;
+  }
+
+  return recordScheduledCall(userId, response, {
+    callType,
+    callTime,
+    timeZone,
+    date,
+    scheduledFor,
+  });
+}
+
+/**
+ * Replace a user's pending call of a type after its settings changed
+ * Booking is tried again when a pending call cannot be cancelled. If it
+ * still fails, the failure is stored in callScheduleFailures on the user
+ * document, and the next successful booking of that type clears it.
+ * @param {string} userId - The user ID
+ * @param {UserProfile} user - The user profile after the change
+ * @param {CallType} callType - Type of call (morning or evening)
+ * @return {Promise<ScheduledCallRecord|null>} The recorded call, or null
+ * if nothing was booked
+ * @throws {PendingCallNotCancelledError} If the old call could still not
+ * be cancelled after every try
+ */
+export async function rescheduleCall(
+  userId: string,
+  user: UserProfile,
+  callType: CallType,
+): Promise<ScheduledCallRecord | null> {
+  const userRef = getFirestore().collection("users").doc(userId);
+  const failureField = `callScheduleFailures.${callType}`;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const record = await bookScheduledCall(userId, user, callType, false);
+      if (record && user.callScheduleFailures?.[callType]) {
+        await userRef.update({[failureField]: FieldValue.delete()});
+      }
+      return record;
+    } catch (error) {
+      if (!(error instanceof PendingCallNotCancelledError)) {
+        throw error;
+      }
+      if (attempt >= RESCHEDULE_ATTEMPTS) {
+        const failure: CallScheduleFailure = {
+          error: error.message,
+          failedAt: new Date(),
+        };
+        await userRef.update({[failureField]: failure});
+        throw error;
+      }
+      logger.warn(
+        `Retrying ${callType} call booking for user ${userId}: ` +
+        error.message,
+      );
+    }
+  }
+}
+
+/**
+ * Record a call booked through scheduleVapiCall
+ * @param {string} userId - The user ID
+ * @param {object} response - The response returned by scheduleVapiCall
+ * @param {object} call - Type, time, zone, local date and instant of the
+ * call, and for retries the attempt details
+ * @return {Promise<ScheduledCallRecord>} The stored record
+ */
+export async function recordScheduledCall(
+  userId: string,
+  response: object,
+  call: Pick<
+    ScheduledCallRecord,
+    "callType" | "callTime" | "timeZone" | "date" | "scheduledFor"
+  > &
+    Partial<Pick<ScheduledCallRecord, "attempt" | "retryOf" | "windowEndsAt">>,
+): Promise<ScheduledCallRecord> {
+  const vapiCallId = "id" in response ? String(response.id) : null;
+  const record: ScheduledCallRecord = {
+    vapiCallId,
+    status: "scheduled",
+    ...call,
+    createdAt: new Date(),
+  };
+
+  const recordRef = vapiCallId ?
+    scheduledCallsRef(userId).doc(vapiCallId) :
+    scheduledCallsRef(userId).doc();
+  await recordRef.set(record);
+
+  return record;
+}
+
+/**
+ * Book a one-off welcome call a few minutes from now
+ * @param {string} userId - The user ID
+ * @param {UserProfile} user - The user profile
+ * @return {Promise<ScheduledCallRecord|null>} The recorded call, or null
+ * if nothing was booked
+ */
+export async function bookWelcomeCall(
+  userId: string,
+  user: UserProfile,
+): Promise<ScheduledCallRecord | null> {
+  if (!user.phoneNumber) {
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(user.timeZone);
+  const callTime = formatTimeString(
+    new Date(Date.now() + WELCOME_CALL_DELAY_MINUTES * 60000),
+    timeZone,
+  );
+  const scheduledFor = parseTimeString(callTime, timeZone);
+  if (!scheduledFor) {
+    return null;
+  }
+
+  const response = await scheduleVapiCall(
+    userId,
+    user.name || "there",
+    user.phoneNumber,
+    callTime,
+    "welcome",
+    timeZone,
+  );
+  if (!response) {
+    return null;
+  }
+
+  return recordScheduledCall(userId, response, {
+    callType: "welcome",
+    callTime,
+    timeZone,
+    date: getLocalDateString(timeZone, scheduledFor),
+    scheduledFor,
+  });
+}
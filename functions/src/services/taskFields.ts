@@ -0,0 +1,241 @@
+/**
+ * Task fields
+ * Validates the optional planner task fields (priority, scheduled time,
+ * duration, category, notes and steps), sorts tasks by them and keeps
+ * parent tasks in sync with their steps
+ */
+import {v4 as uuidv4} from "uuid";
+import {
+  TaskCounts,
+  TaskItem,
+  TaskItemInput,
+  TaskPriority,
+  TaskSortOrder,
+  TaskStep,
+} from "../types/plannerTypes";
+
+export const TASK_PRIORITIES: TaskPriority[] = ["high", "medium", "low"];
+export const TASK_SORT_ORDERS: TaskSortOrder[] = ["time", "priority"];
+
+// Limits for the optional fields
+const MAX_CATEGORY_LENGTH = 50;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_STEPS = 20;
+const MAX_STEP_LENGTH = 500;
+
+// "14:00", "2pm", "2:30 PM"
+const CLOCK_TIME_REGEX = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+// Optional fields of a stored task
+export type TaskDetails = Pick<
+  TaskItem,
+  | "priority"
+  | "scheduledTime"
+  | "durationMinutes"
+  | "category"
+  | "notes"
+  | "steps"
+>;
+
+/**
+ * Convert a clock time to a 24-hour "HH:MM" string
+ * @param {string} value - Time such as "14:00", "2pm" or "2:30 PM"
+ * @return {string|null} The normalized time, or null if not understood
+ */
+export function normalizeClockTime(value: string): string | null {
+  const match = value.trim().match(CLOCK_TIME_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const period = match[3]?.toLowerCase();
+
+  if (period) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (period === "pm" ? 12 : 0);
+  } else if (!match[2]) {
+    // A bare number such as "2" is ambiguous without am/pm
+    return null;
+  }
+
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * Validate and normalize the optional fields of a task sent by the
+ * assistant. Both camelCase and snake_case names are accepted.
+ * @param {TaskItemInput} task - The task as sent
+ * @return {TaskDetails|string} The fields to store, or an error message
+ */
+export function parseTaskDetails(task: TaskItemInput): TaskDetails | string {
+  const details: TaskDetails = {};
+  const label = `Task "${task.text}"`;
+
+  if (task.priority !== undefined) {
+    if (!TASK_PRIORITIES.includes(task.priority)) {
+      return `${label}: priority must be one of ${TASK_PRIORITIES.join(", ")}`;
+    }
+    details.priority = task.priority;
+  }
+
+  const scheduledTime = task.scheduledTime ?? task.scheduled_time;
+  if (scheduledTime !== undefined) {
+    const normalized = typeof scheduledTime === "string" ?
+      normalizeClockTime(scheduledTime) : null;
+    if (!normalized) {
+      return `${label}: scheduled time must look like "14:00" or "2:30 PM"`;
+    }
+    details.scheduledTime = normalized;
+  }
+
+  const durationMinutes = task.durationMinutes ?? task.duration_minutes;
+  if (durationMinutes !== undefined) {
+    if (
+      !Number.isInteger(durationMinutes) ||
+      durationMinutes <= 0 ||
+      durationMinutes > MAX_DURATION_MINUTES
+    ) {
+      return `${label}: duration must be a whole number of minutes ` +
+        `from 1 to ${MAX_DURATION_MINUTES}`;
+    }
+    details.durationMinutes = durationMinutes;
+  }
+
+  if (task.category !== undefined) {
+    if (
+      typeof task.category !== "string" ||
+      !task.category.trim() ||
+      task.category.length > MAX_CATEGORY_LENGTH
+    ) {
+      return `${label}: category must be at most ` +
+        `${MAX_CATEGORY_LENGTH} characters`;
+    }
+    details.category = task.category.trim().toLowerCase();
+  }
+
+  if (task.notes !== undefined) {
+    if (
+      typeof task.notes !== "string" ||
+      task.notes.length > MAX_NOTES_LENGTH
+    ) {
+      return `${label}: notes must be at most ${MAX_NOTES_LENGTH} characters`;
+    }
+    details.notes = task.notes;
+  }
+
+  if (task.steps !== undefined) {
+    if (!Array.isArray(task.steps) || task.steps.length > MAX_STEPS) {
+      return `${label}: steps must be a list of up to ${MAX_STEPS} steps`;
+    }
+
+    const steps: TaskStep[] = [];
+    for (const step of task.steps) {
+      if (
+        !step ||
+        typeof step.text !== "string" ||
+        !step.text.trim() ||
+        step.text.length > MAX_STEP_LENGTH
+      ) {
+        return `${label}: each step must have text of at most ` +
+          `${MAX_STEP_LENGTH} characters`;
+      }
+
+      const id = typeof step.id === "string" && step.id ? step.id : uuidv4();
+      if (steps.some((existing) => existing.id === id)) {
+        return `${label}: duplicate step id ${id}`;
+      }
+
+      const isComplete = step.isComplete ?? step.is_complete ?? false;
+      if (typeof isComplete !== "boolean") {
+        return `${label}: isComplete must be a boolean`;
+      }
+
+      steps.push({id, text: step.text.trim(), isComplete});
+    }
+    details.steps = steps;
+  }
+
+  return details;
+}
+
+/**
+ * Complete a task automatically once it has steps and all are complete
+ * @param {TaskItem} task - The task after a change
+ * @return {TaskItem} The task with isComplete matching its steps
+ */
+export function syncTaskWithSteps<T extends TaskItem>(task: T): T {
+  if (!task.steps || task.steps.length === 0) {
+    return task;
+  }
+  return {...task, isComplete: task.steps.every((step) => step.isComplete)};
+}
+
+/**
+ * Mark a task complete or incomplete
+ * The steps follow the task, so completing a task completes its steps and
+ * reopening it reopens them; otherwise the task would complete again
+ * from its steps on the next change.
+ * @param {TaskItem} task - The task
+ * @param {boolean} isComplete - The new status
+ * @return {TaskItem} The updated task
+ */
+export function setTaskComplete<T extends TaskItem>(
+  task: T,
+  isComplete: boolean,
+): T {
+  if (!task.steps) {
+    return {...task, isComplete};
+  }
+  return {
+    ...task,
+    isComplete,
+    steps: task.steps.map((step) => ({...step, isComplete})),
+  };
+}
+
+/**
+ * Count tasks and their steps
+ * @param {TaskItem[]} tasks - The day's tasks
+ * @return {TaskCounts} Totals and completed counts on both levels
+ */
+export function getTaskCounts(tasks: TaskItem[]): TaskCounts {
+  const steps = tasks.flatMap((task) => task.steps || []);
+  return {
+    total_tasks: tasks.length,
+    completed_tasks: tasks.filter((task) => task.isComplete).length,
+    total_steps: steps.length,
+    completed_steps: steps.filter((step) => step.isComplete).length,
+  };
+}
+
+/**
+ * Sort tasks by scheduled time or priority
+ * Tasks without the field go last; ties keep their stored order.
+ * @param {TaskItem[]} tasks - Tasks in stored order
+ * @param {TaskSortOrder} sortBy - "time" or "priority"
+ * @return {TaskItem[]} A sorted copy
+ */
+export function sortTasks<T extends TaskItem>(
+  tasks: T[],
+  sortBy: TaskSortOrder,
+): T[] {
+  const timeKey = (task: TaskItem) => task.scheduledTime || "99:99";
+  const priorityKey = (task: TaskItem) =>
+    task.priority ? TASK_PRIORITIES.indexOf(task.priority) : 99;
+
+  return [...tasks].sort((a, b) => {
+    if (sortBy === "priority" && priorityKey(a) !== priorityKey(b)) {
+      return priorityKey(a) - priorityKey(b);
+    }
+    return timeKey(a).localeCompare(timeKey(b));
+  });
+}
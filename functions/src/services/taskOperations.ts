@@ -0,0 +1,85 @@
+/**
+ * Task operations
+ * Applies add, remove, rename and move operations to a planner's stored
+ * task list, so the assistant never has to resend the whole list
+ */
+import {ToolCallError} from "./vapiTools";
+import {TaskItem} from "../types/plannerTypes";
+
+// An operation checked by the endpoint, with new tasks already built
+export type ValidTaskOperation =
+  | {op: "add"; task: TaskItem; position?: number}
+  | {op: "remove"; taskId: string}
+  | {op: "rename"; taskId: string; text: string}
+  | {op: "move"; taskId: string; position: number};
+
+/**
+ * Find a task's index or fail the tool call
+ * @param {TaskItem[]} tasks - The current tasks
+ * @param {string} taskId - The task to find
+ * @return {number} The task's index
+ */
+function findTaskIndex(tasks: TaskItem[], taskId: string): number {
+  const index = tasks.findIndex((task) => task.id === taskId);
+  if (index === -1) {
+    throw new ToolCallError(`Task not found: ${taskId}`, 404);
+  }
+  return index;
+}
+
+/**
+ * Check a position against the list it will be used in
+ * @param {number} position - The requested index
+ * @param {number} max - Highest allowed index
+ */
+function checkPosition(position: number, max: number) {
+  if (position > max) {
+    throw new ToolCallError(
+      `Position ${position} is out of range. Use 0 to ${max}`,
+    );
+  }
+}
+
+/**
+ * Apply operations to a task list in order
+ * Any failing operation aborts the whole change.
+ * @param {TaskItem[]} tasks - The stored tasks
+ * @param {ValidTaskOperation[]} operations - The operations to apply
+ * @return {TaskItem[]} The new task list
+ * @throws {ToolCallError} If a task is not found or a position is out of
+ * range
+ */
+export function applyTaskOperations(
+  tasks: TaskItem[],
+  operations: ValidTaskOperation[],
+): TaskItem[] {
+  const result = [...tasks];
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case "add": {
+        const position = operation.position ?? result.length;
+        checkPosition(position, result.length);
+        result.splice(position, 0, operation.task);
+        break;
+      }
+      case "remove":
+        result.splice(findTaskIndex(result, operation.taskId), 1);
+        break;
+      case "rename": {
+        const index = findTaskIndex(result, operation.taskId);
+        result[index] = {...result[index], text: operation.text};
+        break;
+      }
+      case "move": {
+        const index = findTaskIndex(result, operation.taskId);
+        checkPosition(operation.position, result.length - 1);
+        const [task] = result.splice(index, 1);
+        result.splice(operation.position, 0, task);
+        break;
+      }
+    }
+  }
+
+  return result;
+}
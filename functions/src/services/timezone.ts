@@ -0,0 +1,170 @@
+/**
+ * Time zone helpers
+ * Resolves each user's time zone and derives local date keys and times
+ */
+import * as logger from "firebase-functions/logger";
+import {getFirestore} from "firebase-admin/firestore";
+
+// Fallback used when a user has no (or an invalid) timeZone on their profile
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || "UTC";
+
+/**
+ * Check whether a string is a valid IANA time zone name
+ * @param {string} timeZone - Time zone such as "America/New_York"
+ * @return {boolean} True if the time zone is supported
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", {timeZone});
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Use a stored time zone, or DEFAULT_TIME_ZONE if it is missing or invalid
+ * @param {unknown} timeZone - Time zone from a user profile
+ * @return {string} A valid IANA time zone
+ */
+export function resolveTimeZone(timeZone: unknown): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Get the time zone stored on users/{userId}
+ * @param {string} userId - The user ID
+ * @return {Promise<string>} The user's time zone or DEFAULT_TIME_ZONE
+ */
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const userDoc = await getFirestore().collection("users").doc(userId).get();
+  const timeZone = userDoc.data()?.timeZone;
+
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    logger.warn(
+      `Invalid timeZone "${timeZone}" for user ${userId}, ` +
+      `falling back to ${DEFAULT_TIME_ZONE}`,
+    );
+  }
+
+  return resolveTimeZone(timeZone);
+}
+
+/**
+ * Get the wall-clock parts of an instant in a time zone
+ * @param {string} timeZone - IANA time zone
+ * @param {Date} date - The instant to convert
+ * @return {object} Year, month (1-12), day, hour, minute and second
+ */
+export function getZonedParts(timeZone: string, date: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parseInt(parts.find((part) => part.type === type)?.value || "0", 10);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Get the offset of a time zone from UTC at a given instant
+ * @param {string} timeZone - IANA time zone
+ * @param {Date} date - The instant to check
+ * @return {number} Offset in milliseconds (local time minus UTC)
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const parts = getZonedParts(timeZone, date);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Get the local date in YYYY-MM-DD format for a time zone
+ * @param {string} timeZone - IANA time zone
+ * @param {Date} date - The instant to convert (defaults to now)
+ * @return {string} Local date key such as "2025-06-01"
+ */
+export function getLocalDateString(
+  timeZone: string,
+  date: Date = new Date(),
+): string {
+  const {year, month, day} = getZonedParts(timeZone, date);
+  return [
+    String(year).padStart(4, "0"),
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Get today's date key (YYYY-MM-DD) in the user's local time zone
+ * @param {string} userId - The user ID
+ * @return {Promise<string>} Local date key for the user
+ */
+export async function getTodayForUser(userId: string): Promise<string> {
+  const timeZone = await getUserTimeZone(userId);
+  return getLocalDateString(timeZone);
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date key
+ * @param {string} dateString - Date key such as "2025-06-01"
+ * @param {number} days - Days to add (may be negative)
+ * @return {string} The shifted date key
+ */
+export function addDays(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split("-").map((n) => parseInt(n, 10));
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Convert a local wall-clock time in a time zone to a UTC instant
+ * @param {string} dateString - Local date key such as "2025-06-01"
+ * @param {number} hours - Local hour (0-23)
+ * @param {number} minutes - Local minute (0-59)
+ * @param {string} timeZone - IANA time zone
+ * @return {Date} The matching instant
+ */
+export function zonedTimeToUtc(
+  dateString: string,
+  hours: number,
+  minutes: number,
+  timeZone: string,
+): Date {
+  const [year, month, day] = dateString.split("-").map((n) => parseInt(n, 10));
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+
+  // Apply the offset, then re-check it in case the guess crossed a DST switch
+  let result = wallClock - getTimeZoneOffset(timeZone, new Date(wallClock));
+  const correctedOffset = getTimeZoneOffset(timeZone, new Date(result));
+  result = wallClock - correctedOffset;
+
+  return new Date(result);
+}
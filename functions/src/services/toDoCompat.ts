@@ -0,0 +1,52 @@
+/**
+ * To-do compatibility
+ * To-do items are stored as tasks in the day's planner. These helpers turn
+ * to-do items into tasks and tasks back into the to-do item shape the
+ * to-do tools have always returned.
+ */
+import {DocumentData} from "firebase-admin/firestore";
+import {v4 as uuidv4} from "uuid";
+import {ToDoItem} from "../types/todoTypes";
+import {TaskItem} from "../types/plannerTypes";
+
+/**
+ * Build a new, unfinished task from to-do text
+ * @param {string} text - The item text
+ * @param {Date} now - Creation time
+ * @return {TaskItem} The task
+ */
+export function createToDoTask(text: string, now: Date): TaskItem {
+  return {id: uuidv4(), text, isComplete: false, createdAt: now};
+}
+
+/**
+ * Convert a stored to-do item into a task, keeping its ID
+ * @param {ToDoItem} item - Item from a legacy to_do_list document
+ * @return {TaskItem} The task
+ */
+export function toTask(item: ToDoItem): TaskItem {
+  return {
+    id: item.id,
+    text: item.text,
+    isComplete: item.isComplete === true,
+    createdAt: item.createdAt,
+    ...(item.rolloverCount && {rolloverCount: item.rolloverCount}),
+  };
+}
+
+/**
+ * Read a planner's tasks as to-do items
+ * Tasks written before to-dos were merged have no creation time, so the
+ * planner's is used.
+ * @param {DocumentData} planner - Planner document data (optional)
+ * @return {ToDoItem[]} The tasks in to-do item shape
+ */
+export function toToDoItems(planner: DocumentData | undefined): ToDoItem[] {
+  return ((planner?.tasks || []) as TaskItem[]).map((task) => ({
+    id: task.id,
+    text: task.text,
+    isComplete: task.isComplete,
+    createdAt: task.createdAt ?? planner?.createdAt,
+    ...(task.rolloverCount && {rolloverCount: task.rolloverCount}),
+  }));
+}
@@ -0,0 +1,134 @@
+/**
+ * To-do list migration
+ * Moves the items of users/{userId}/to_do_list/{date} into the tasks of
+ * users/{userId}/planner/{date}. The old documents are kept, marked with
+ * migratedTo, so a day is only moved once and can still be inspected.
+ */
+import * as logger from "firebase-functions/logger";
+import {FieldPath, getFirestore} from "firebase-admin/firestore";
+import {createEmptyMealPlan} from "./mealPlanning";
+import {DateRange} from "./dateRanges";
+import {toTask} from "./toDoCompat";
+import {ToDoListDocument} from "../types/todoTypes";
+import {PlannerDocument, TaskItem} from "../types/plannerTypes";
+
+// Written to "modifiedBy" on planners the migration changes
+const MIGRATION_MODIFIED_BY = "toDoMigration";
+
+/**
+ * Move one day's to-do items into that day's planner
+ * Items whose ID the planner already has are not added twice.
+ * @param {string} userId - The user ID
+ * @param {string} date - Date key of the day
+ * @return {Promise<number>} Number of items added to the planner
+ */
+export async function migrateToDoDay(
+  userId: string,
+  date: string,
+): Promise<number> {
+  const db = getFirestore();
+  const userRef = db.collection("users").doc(userId);
+  const toDoRef = userRef.collection("to_do_list").doc(date);
+  const plannerRef = userRef.collection("planner").doc(date);
+
+  return db.runTransaction(async (transaction) => {
+    const toDoDoc = await transaction.get(toDoRef);
+    const plannerDoc = await transaction.get(plannerRef);
+    const toDoList = toDoDoc.data() as ToDoListDocument | undefined;
+    if (!toDoList || toDoList.migratedTo) {
+      return 0;
+    }
+
+    const planner = plannerDoc.data() as PlannerDocument | undefined;
+    const plannerTasks = (planner?.tasks || []) as TaskItem[];
+    const plannerIds = new Set(plannerTasks.map((task) => task.id));
+    const moved = (toDoList.items || [])
+      .filter((item) => !plannerIds.has(item.id))
+      .map(toTask);
+
+    const now = new Date();
+    if (moved.length > 0) {
+      // Bump the version so clients holding the old day see a conflict
+      const version = (planner?.version || 0) + 1;
+      if (planner) {
+        transaction.update(plannerRef, {
+          tasks: [...plannerTasks, ...moved],
+          lastModified: now,
+          modifiedBy: MIGRATION_MODIFIED_BY,
+          version,
+        });
+      } else {
+        const newPlanner: PlannerDocument = {
+          tasks: moved,
+          meals: createEmptyMealPlan(),
+          createdAt: toDoList.created_at || now,
+          lastModified: now,
+          modifiedBy: MIGRATION_MODIFIED_BY,
+          version,
+          // A day already carried over must not be carried again
+          ...(toDoList.rolledOverTo && {rolledOverTo: toDoList.rolledOverTo}),
+        };
+        transaction.set(plannerRef, newPlanner);
+      }
+    }
+
+    transaction.update(toDoRef, {migratedTo: "planner", migratedAt: now});
+    return moved.length;
+  });
+}
+
+/**
+ * Move the to-do lists of a range of days into their planners
+ * Readers of planner history call this first, so days the migration has
+ * not reached yet are not missing.
+ * @param {string} userId - The user ID
+ * @param {DateRange} range - The dates to move
+ * @return {Promise<number>} Number of items added to planners
+ */
+export async function migrateToDoRange(
+  userId: string,
+  range: DateRange,
+): Promise<number> {
+  // Day documents are keyed by YYYY-MM-DD, so IDs sort by date
+  const snapshot = await getFirestore()
+    .collection("users")
+    .doc(userId)
+    .collection("to_do_list")
+    .where(FieldPath.documentId(), ">=", range.startDate)
+    .where(FieldPath.documentId(), "<=", range.endDate)
+    .get();
+
+  let moved = 0;
+  for (const doc of snapshot.docs) {
+    if (!(doc.data() as ToDoListDocument).migratedTo) {
+      moved += await migrateToDoDay(userId, doc.id);
+    }
+  }
+  return moved;
+}
+
+/**
+ * Move every to-do list of a user into the planner
+ * @param {string} userId - The user ID
+ * @return {Promise<number>} Number of items added to planners
+ */
+export async function migrateUserToDoLists(userId: string): Promise<number> {
+  const db = getFirestore();
+  const userRef = db.collection("users").doc(userId);
+  const snapshot = await userRef.collection("to_do_list").get();
+
+  let moved = 0;
+  for (const doc of snapshot.docs) {
+    if (!(doc.data() as ToDoListDocument).migratedTo) {
+      moved += await migrateToDoDay(userId, doc.id);
+    }
+  }
+
+  await userRef.update({toDoListsMigratedAt: new Date()});
+  if (moved > 0) {
+    logger.info(
+      `Moved ${moved} to-do items into planners for user ${userId}`,
+    );
+  }
+  return moved;
+}
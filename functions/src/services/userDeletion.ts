@@ -0,0 +1,129 @@
+/**
+ * User data deletion
+ * Removes everything stored under users/{userId} once the user is deleted
+ * and leaves an anonymized receipt behind for privacy compliance
+ */
+import * as logger from "firebase-functions/logger";
+import {createHmac} from "crypto";
+import {CollectionReference, getFirestore} from "firebase-admin/firestore";
+import {cancelScheduledCalls} from "./scheduledCalls";
+import {DeletionReceipt} from "../types/userTypes";
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+// Secret used to hash user IDs in deletion receipts
+const DELETION_RECEIPT_SALT = process.env.DELETION_RECEIPT_SALT || "";
+
+/**
+ * Delete every document in a collection, including nested subcollections
+ * @param {CollectionReference} collectionRef - The collection to delete
+ * @return {Promise<number>} Number of documents deleted
+ */
+async function deleteCollection(
+  collectionRef: CollectionReference,
+): Promise<number> {
+  const db = getFirestore();
+  let deleted = 0;
+
+  for (;;) {
+    const snapshot = await collectionRef.limit(BATCH_SIZE).get();
+    if (snapshot.empty) {
+      return deleted;
+    }
+
+    // Deleting a document does not delete its subcollections
+    for (const doc of snapshot.docs) {
+      for (const subcollection of await doc.ref.listCollections()) {
+        deleted += await deleteCollection(subcollection);
+      }
+    }
+
+    const batch = db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    deleted += snapshot.size;
+  }
+}
+
+/**
+ * Hash a user ID so the receipt can be matched to a request without
+ * storing the ID itself
+ * Without a salt the hash could be reversed by hashing known IDs, so an
+ * unset salt is an error.
+ * @param {string} userId - The user ID
+ * @return {string} Hex encoded HMAC-SHA256 of the user ID
+ */
+export function hashUserId(userId: string): string {
+  if (!DELETION_RECEIPT_SALT) {
+    throw new Error("DELETION_RECEIPT_SALT must be set");
+  }
+  return createHmac("sha256", DELETION_RECEIPT_SALT)
+    .update(userId)
+    .digest("hex");
+}
+
+/**
+ * Cancel a deleted user's calls, remove all of their subcollections and
+ * write an anonymized deletion receipt
+ * The data is deleted even when DELETION_RECEIPT_SALT is unset; only the
+ * receipt is then missing and the error is thrown.
+ * @param {string} userId - The user ID
+ * @return {Promise<DeletionReceipt>} The receipt that was written
+ */
+export async function deleteUserData(
+  userId: string,
+): Promise<DeletionReceipt> {
+  const db = getFirestore();
+  let status: DeletionReceipt["status"] = "completed";
+
+  // Cancel calls first, their records live in a subcollection
+  let callsCancelled = 0;
+  try {
+    const result = await cancelScheduledCalls(userId);
+    callsCancelled = result.cancelled;
+    if (result.failed > 0) {
+      status = "partial";
+    }
+  } catch (error) {
+    status = "partial";
+    logger.error(`Error cancelling calls for user ${userId}:`, error);
+  }
+
+  const collections: Record<string, number> = {};
+  const subcollections = await db
+    .collection("users")
+    .doc(userId)
+    .listCollections();
+
+  for (const collectionRef of subcollections) {
+    try {
+      collections[collectionRef.id] = await deleteCollection(collectionRef);
+    } catch (error) {
+      status = "partial";
+      logger.error(
+        `Error deleting ${collectionRef.id} for user ${userId}:`,
+        error,
+      );
+    }
+  }
+
+  const receipt: DeletionReceipt = {
+    subjectHash: hashUserId(userId),
+    deletedAt: new Date(),
+    collections,
+    documentsDeleted: Object.values(collections)
+      .reduce((sum, count) => sum + count, 0),
+    callsCancelled,
+    status,
+  };
+  await db.collection("deletion_receipts").add(receipt);
+
+  logger.info(`Deleted data for user ${userId}`, {
+    collections,
+    documentsDeleted: receipt.documentsDeleted,
+    callsCancelled,
+    status,
+  });
+  return receipt;
+}
@@ -0,0 +1,111 @@
+/**
+ * New-user provisioning
+ * Fills in default settings and creates the first day's data for new users
+ */
+import * as logger from "firebase-functions/logger";
+import {getFirestore} from "firebase-admin/firestore";
+import {bookWelcomeCall} from "./scheduledCalls";
+import {createEmptyMealPlan} from "./mealPlanning";
+import {
+  DEFAULT_TIME_ZONE,
+  getLocalDateString,
+  isValidTimeZone,
+} from "./timezone";
+import {UserProfile} from "../types/userTypes";
+import {PlannerDocument} from "../types/plannerTypes";
+
+// Settings applied to fields the new user document does not already have
+export const DEFAULT_USER_SETTINGS: Required<
+  Pick<
+    UserProfile,
+    | "morningCallTime"
+    | "eveningCallTime"
+    | "morningCallsEnabled"
+    | "eveningCallsEnabled"
+    | "rolloverEnabled"
+    | "callRetryAttempts"
+    | "callRetryGapMinutes"
+    | "callWindowMinutes"
+  >
+> = {
+  morningCallTime: "8:00 AM",
+  eveningCallTime: "9:00 PM",
+  morningCallsEnabled: true,
+  eveningCallsEnabled: true,
+  rolloverEnabled: true,
+  callRetryAttempts: 2,
+  callRetryGapMinutes: 10,
+  callWindowMinutes: 60,
+};
+
+/**
+ * Get the default settings missing from a user profile
+ * @param {UserProfile} user - The user profile as created
+ * @return {Partial<UserProfile>} Only the fields that need to be written
+ */
+export function getMissingDefaults(user: UserProfile): Partial<UserProfile> {
+  const defaults: Partial<UserProfile> = {};
+
+  if (!isValidTimeZone(user.timeZone)) {
+    defaults.timeZone = DEFAULT_TIME_ZONE;
+  }
+
+  for (const [key, value] of Object.entries(DEFAULT_USER_SETTINGS)) {
+    const field = key as keyof typeof DEFAULT_USER_SETTINGS;
+    if (user[field] === undefined) {
+      Object.assign(defaults, {[field]: value});
+    }
+  }
+
+  return defaults;
+}
+
+/**
+ * Provision a newly created user: default settings, today's empty planner
+ * and a welcome call
+ * @param {string} userId - The user ID
+ * @param {UserProfile} user - The user profile as created
+ * @return {Promise<void>}
+ */
+export async function provisionNewUser(
+  userId: string,
+  user: UserProfile,
+): Promise<void> {
+  const db = getFirestore();
+  const userRef = db.collection("users").doc(userId);
+
+  // Writing the call times also fires onUserUpdated, which books the
+  // user's first morning and evening calls
+  const defaults = getMissingDefaults(user);
+  if (Object.keys(defaults).length > 0) {
+    await userRef.set(defaults, {merge: true});
+    logger.info(`Applied default settings for user ${userId}`, defaults);
+  }
+
+  const settings: UserProfile = {...user, ...defaults};
+  const timeZone = settings.timeZone || DEFAULT_TIME_ZONE;
+
+  // Create today's empty planner so the assistant has something to read
+  const today = getLocalDateString(timeZone);
+  const plannerRef = userRef.collection("planner").doc(today);
+  const plannerDoc = await plannerRef.get();
+  if (!plannerDoc.exists) {
+    const now = new Date();
+    const newPlanner: PlannerDocument = {
+      tasks: [],
+      meals: createEmptyMealPlan(),
+      createdAt: now,
+      lastModified: now,
+      modifiedBy: "onNewUser",
+    };
+    await plannerRef.set(newPlanner);
+  }
+
+  if (settings.phoneNumber) {
+    try {
+      await bookWelcomeCall(userId, settings);
+    } catch (error) {
+      logger.error(`Error booking welcome call for user ${userId}:`, error);
+    }
+  }
+}
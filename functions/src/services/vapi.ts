@@ -4,6 +4,14 @@
  */
 import * as logger from "firebase-functions/logger";
 import {VapiClient} from "@vapi-ai/server-sdk";
+import {
+  DEFAULT_TIME_ZONE,
+  getLocalDateString,
+  getZonedParts,
+  zonedTimeToUtc,
+  addDays,
+} from "./timezone";
+import {ScheduledCallType} from "../types/userTypes";
 
 // ===== Vapi API Configuration =====
 // Set this in your Firebase environment variables
@@ -18,7 +26,8 @@ const vapiClient = new VapiClient({token: VAPI_API_KEY});
  * @param {string} userName - The user's name
  * @param {string} phoneNumber - The phone number to call
  * @param {string} callTime - The time to schedule the call
- * @param {string} callType - Type of call (morning or evening)
+ * @param {string} callType - Type of call (morning, evening or welcome)
+ * @param {string} timeZone - The user's time zone the call time is in
  * @return {Promise<any>} The API response data
  */
 export async function scheduleVapiCall(
@@ -26,7 +35,8 @@ export async function scheduleVapiCall(
   userName: string,
   phoneNumber: string,
   callTime: string,
-  callType: "morning" | "evening",
+  callType: ScheduledCallType,
+  timeZone: string = DEFAULT_TIME_ZONE,
 ) {
   try {
     if (!VAPI_API_KEY) {
@@ -34,8 +44,8 @@ export async function scheduleVapiCall(
       return;
     }
 
-    // Parse the time format like "8:00 AM"
-    const scheduledTime = parseTimeString(callTime);
+    // Parse the time format like "8:00 AM" in the user's time zone
+    const scheduledTime = parseTimeString(callTime, timeZone);
 
     // Ensure the time is valid
     if (!scheduledTime || isNaN(scheduledTime.getTime())) {
@@ -88,12 +98,38 @@ export async function scheduleVapiCall(
   }
 }
 
+/**
+ * Cancel a scheduled call with Vapi API
+ * @param {string} callId - The Vapi call ID returned when it was scheduled
+ * @return {Promise<boolean>} True if the call was cancelled
+ */
+export async function cancelVapiCall(callId: string): Promise<boolean> {
+  try {
+    if (!VAPI_API_KEY) {
+      logger.error("VAPI_API_KEY is not set in environment variables");
+      return false;
+    }
+
+    await vapiClient.calls.delete(callId);
+
+    logger.info(`Successfully cancelled call ${callId}`);
+    return true;
+  } catch (error) {
+    logger.error(`Error cancelling call ${callId}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Parse a time string in format "8:00 AM" to a Date object
  * @param {string} timeString - Time string in format "8:00 AM"
+ * @param {string} timeZone - Time zone the time string is local to
  * @return {Date|null} Date object set to today with the specified time
  */
-export function parseTimeString(timeString: string): Date | null {
+export function parseTimeString(
+  timeString: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): Date | null {
   try {
     // Check if the string matches the expected format
     const timeRegex = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i;
@@ -115,14 +151,14 @@ export function parseTimeString(timeString: string): Date | null {
       hours = 0;
     }
 
-    // Create a date object for today with the specified time
-    const date = new Date();
-    date.setHours(hours, minutes, 0, 0);
+    // Create a date object for today (in the user's zone) with the time
+    const now = new Date();
+    const today = getLocalDateString(timeZone, now);
+    let date = zonedTimeToUtc(today, hours, minutes, timeZone);
 
     // If the time is already past for today, schedule it for tomorrow
-    const now = new Date();
     if (date < now) {
-      date.setDate(date.getDate() + 1);
+      date = zonedTimeToUtc(addDays(today, 1), hours, minutes, timeZone);
     }
 
     logger.info(`Scheduled time: ${date.toISOString()}`);
@@ -132,3 +168,19 @@ export function parseTimeString(timeString: string): Date | null {
     return null;
   }
 }
+
+/**
+ * Format a Date as a time string in format "8:00 AM"
+ * @param {Date} date - The instant to format
+ * @param {string} timeZone - Time zone to express the time in
+ * @return {string} Time string in format "8:00 AM"
+ */
+export function formatTimeString(
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): string {
+  const {hour, minute} = getZonedParts(timeZone, date);
+  const period = hour < 12 ? "AM" : "PM";
+  const hours12 = hour % 12 === 0 ? 12 : hour % 12;
+  return `${hours12}:${String(minute).padStart(2, "0")} ${period}`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Vapi tool call helpers
+ * Runs every tool call in a Vapi message and builds the results[] response
+ */
+import {Request, onRequest} from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import {
+  VapiGenericToolCall,
+  VapiToolCallResult,
+  VapiToolHandler,
+} from "../types/vapiTypes";
+
+/**
+ * Error thrown by a tool handler to fail the tool call with a message
+ * meant for the caller, such as a missing document or a stale version
+ */
+export class ToolCallError extends Error {
+  code: number;
+
+  /**
+   * @param {string} message - Message describing what went wrong
+   * @param {number} code - HTTP-style status code
+   */
+  constructor(message: string, code = 400) {
+    super(message);
+    this.name = "ToolCallError";
+    this.code = code;
+  }
+}
+
+/**
+ * Build a failed results[] entry for a tool call
+ * @param {string} toolCallId - The tool call ID
+ * @param {string} error - Message describing what went wrong
+ * @param {number} code - HTTP-style status code (optional)
+ * @return {VapiToolCallResult} The results[] entry
+ */
+export function toolCallError(
+  toolCallId: string,
+  error: string,
+  code?: number,
+): VapiToolCallResult {
+  return code === undefined ? {toolCallId, error} : {toolCallId, error, code};
+}
+
+/**
+ * Run a handler for every tool call in a Vapi message
+ * Tool calls run one after another since parallel calls from the assistant
+ * usually touch the same day document. A failing call does not stop the
+ * others, it gets an error entry instead.
+ * @param {Array} toolCalls - The message's toolCallList
+ * @param {Function} handler - Handles one tool call
+ * @return {Promise<VapiToolCallResult[]>} One entry per toolCallId
+ */
+export async function runToolCalls<
+  T extends {id: string; function: {arguments: unknown}},
+>(
+  toolCalls: T[],
+  handler: (toolCall: T) => Promise<VapiToolCallResult>,
+): Promise<VapiToolCallResult[]> {
+  const results: VapiToolCallResult[] = [];
+
+  for (const toolCall of toolCalls) {
+    if (!toolCall?.function?.arguments) {
+      logger.warn("Invalid tool call structure", {toolCall});
+      results.push(
+        toolCallError(toolCall?.id, "Invalid tool call: missing arguments"),
+      );
+      continue;
+    }
+
+    try {
+      results.push(await handler(toolCall));
+    } catch (error) {
+      if (error instanceof ToolCallError) {
+        logger.warn(`Tool call ${toolCall.id} failed: ${error.message}`);
+        results.push(toolCallError(toolCall.id, error.message, error.code));
+        continue;
+      }
+
+      logger.error(`Error in tool call ${toolCall.id}`, {
+        error:
+          error instanceof Error ?
+            {message: error.message, stack: error.stack} :
+            error,
+        toolCall,
+      });
+      results.push(
+        toolCallError(
+          toolCall.id,
+          error instanceof Error ? error.message : "Unknown error occurred",
+        ),
+      );
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Adapt a tool's handler to take calls routed by function name
+ * The router only sees the generic call; the handler reads the arguments
+ * as its own tool's type and validates them itself.
+ * @param {VapiToolHandler} handler - Handler for one tool's call type
+ * @return {VapiToolHandler} Handler taking any routed tool call
+ */
+export function toolHandler<T extends VapiGenericToolCall>(
+  handler: VapiToolHandler<T>,
+): VapiToolHandler {
+  return (toolCall) => handler(toolCall as T);
+}
+
+/**
+ * Check the apikey header of a request from Vapi
+ * @param {Request} req - The incoming request
+ * @param {string[]} apiKeys - API keys accepted in the apikey header
+ * @return {boolean} True if the header holds one of the keys
+ */
+export function hasValidApiKey(req: Request, apiKeys: string[]): boolean {
+  const providedApiKey = req.headers.apikey;
+  return (
+    typeof providedApiKey === "string" &&
+    !!providedApiKey &&
+    apiKeys.filter((key) => !!key).includes(providedApiKey)
+  );
+}
+
+/**
+ * Create an HTTP-triggered tool endpoint for Vapi
+ * Checks the method, API key and toolCallList, then runs the handler for
+ * every tool call and responds with the results[] array
+ * @param {string} name - Endpoint name used in logs
+ * @param {string[]} apiKeys - API keys accepted in the apikey header
+ * @param {VapiToolHandler} handler - Handles one tool call
+ * @return {HttpsFunction} The Cloud Function
+ */
+export function createToolEndpoint<T extends VapiGenericToolCall>(
+  name: string,
+  apiKeys: string[],
+  handler: VapiToolHandler<T>,
+) {
+  return onRequest(async (req, res) => {
+    try {
+      // Enhanced logging
+      logger.info(`${name} request`, {
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: req.body,
+      });
+
+      // Only allow POST requests (since VAPI sends data via POST)
+      if (req.method !== "POST") {
+        res.status(405).json({
+          success: false,
+          error: "Method not allowed. Please use POST.",
+          code: 405,
+        });
+        return;
+      }
+
+      // Validate API key from headers
+      if (!hasValidApiKey(req, apiKeys)) {
+        logger.warn("Unauthorized access attempt", {
+          ip: req.ip,
+          headers: req.headers,
+        });
+        res.status(401).json({
+          success: false,
+          error: "Unauthorized: Invalid or missing API key",
+          code: 401,
+        });
+        return;
+      }
+
+      // Extract and validate VAPI request structure
+      const toolCallList = req.body?.message?.toolCallList;
+      if (!Array.isArray(toolCallList) || toolCallList.length === 0) {
+        logger.warn("Invalid VAPI request structure", {body: req.body});
+        res.status(400).json({
+          success: false,
+          error: "Invalid request structure. Expected VAPI tool call format.",
+          code: 400,
+        });
+        return;
+      }
+
+      // Run every tool call and return one result per toolCallId
+      const results = await runToolCalls(
+        toolCallList as T[],
+        handler,
+      );
+      res.status(200).json({results});
+    } catch (error) {
+      logger.error(`Error in ${name}`, {
+        error:
+          error instanceof Error ?
+            {message: error.message, stack: error.stack} :
+            error,
+        requestBody: req.body,
+      });
+      res.status(500).json({
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Versioned document writes
+ * Runs read-modify-write changes to day documents (planner, journal)
+ * inside Firestore transactions and keeps a version counter on each
+ * document so clients can detect that they are working on stale data
+ */
+import {
+  DocumentData,
+  DocumentReference,
+  getFirestore,
+} from "firebase-admin/firestore";
+import {ToolCallError} from "./vapiTools";
+
+/**
+ * Thrown when a client's expected version no longer matches the document
+ */
+export class VersionConflictError extends ToolCallError {
+  currentVersion: number;
+
+  /**
+   * @param {number} expectedVersion - Version the client sent
+   * @param {number} currentVersion - Version currently stored
+   */
+  constructor(expectedVersion: number, currentVersion: number) {
+    super(
+      `Conflict: expected version ${expectedVersion} but the document is ` +
+      `at version ${currentVersion}. Reload and try again.`,
+      409,
+    );
+    this.name = "VersionConflictError";
+    this.currentVersion = currentVersion;
+  }
+}
+
+// What a mutation wants written and returned
+export interface VersionedWrite<T> {
+  data: DocumentData; // fields to write (merged into an existing document)
+  result: T;
+}
+
+/**
+ * Check an optional expected_version argument
+ * @param {unknown} expectedVersion - The value sent by the client
+ * @return {boolean} True if absent or a non-negative integer
+ */
+function isValidExpectedVersion(expectedVersion: unknown): boolean {
+  return (
+    expectedVersion === undefined ||
+    (Number.isInteger(expectedVersion) && (expectedVersion as number) >= 0)
+  );
+}
+
+/**
+ * Read a document, apply a change and write it back in one transaction
+ * The mutation may run more than once if the transaction is retried, so it
+ * must not have side effects. Throw a ToolCallError from it to abort.
+ * @param {DocumentReference} ref - The document to change
+ * @param {number|undefined} expectedVersion - Version the client last saw,
+ * as sent in expected_version
+ * @param {Function} mutate - Builds the write from the current data
+ * (undefined if the document does not exist yet)
+ * @return {Promise<object>} The mutation's result and the new version
+ */
+export async function runVersionedUpdate<T>(
+  ref: DocumentReference,
+  expectedVersion: number | undefined,
+  mutate: (current: DocumentData | undefined) => VersionedWrite<T>,
+): Promise<{result: T; version: number}> {
+  if (!isValidExpectedVersion(expectedVersion)) {
+    throw new ToolCallError("expected_version must be a non-negative integer");
+  }
+
+  return getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const current = snapshot.exists ? snapshot.data() : undefined;
+    const currentVersion =
+      typeof current?.version === "number" ? current.version : 0;
+
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      throw new VersionConflictError(expectedVersion, currentVersion);
+    }
+
+    const {data, result} = mutate(current);
+    const version = currentVersion + 1;
+
+    if (snapshot.exists) {
+      transaction.update(ref, {...data, version});
+    } else {
+      transaction.set(ref, {...data, version});
+    }
+
+    return {result, version};
+  });
+}
@@ -0,0 +1,70 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  buildGroceryItems,
+  normalizeMealPlan,
+  parseIngredients,
+} from "../services/mealPlanning";
+import {PlannerDay} from "../types/plannerTypes";
+
+/**
+ * Build a planner day holding only meals
+ * @param {string} date - Date key of the day
+ * @param {object} meals - Stored meals, as descriptions or items
+ * @return {PlannerDay} The day
+ */
+function mealDay(
+  date: string,
+  meals: Parameters<typeof normalizeMealPlan>[0],
+): PlannerDay {
+  return {
+    date,
+    tasks: [],
+    meals: normalizeMealPlan(meals),
+    nutrition: {calories: 0, protein: 0},
+    total_tasks: 0,
+    completed_tasks: 0,
+    total_steps: 0,
+    completed_steps: 0,
+    version: 0,
+  };
+}
+
+describe("parseIngredients", () => {
+  it("keeps dish names joined by and/with whole", () => {
+    assert.deepEqual(parseIngredients("mac and cheese"), ["mac and cheese"]);
+    assert.deepEqual(parseIngredients("fish and chips"), ["fish and chips"]);
+    assert.deepEqual(parseIngredients("toast with jam"), ["toast with jam"]);
+  });
+
+  it("splits on commas, semicolons and line breaks", () => {
+    assert.deepEqual(
+      parseIngredients("oats, banana; milk\nhoney."),
+      ["oats", "banana", "milk", "honey"],
+    );
+  });
+});
+
+describe("buildGroceryItems", () => {
+  it("lists a free-text meal as one grocery item", () => {
+    const items = buildGroceryItems([
+      mealDay("2025-06-02", {lunch: "mac and cheese"}),
+      mealDay("2025-06-03", {dinner: "fish and chips, peas"}),
+    ]);
+    assert.deepEqual(
+      items.map((item) => item.name),
+      ["mac and cheese", "fish and chips", "peas"],
+    );
+  });
+
+  it("combines the same ingredient across meals", () => {
+    const items = buildGroceryItems([
+      mealDay("2025-06-02", {breakfast: [{id: "b", name: "banana"}]}),
+      mealDay("2025-06-03", {
+        breakfast: [{id: "b", name: "bananas", quantity: "2"}],
+      }),
+    ]);
+    assert.equal(items.length, 1);
+    assert.deepEqual(items[0].lines, ["banana", "2 bananas"]);
+  });
+});
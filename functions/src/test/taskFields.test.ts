@@ -0,0 +1,34 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {parseTaskDetails} from "../services/taskFields";
+import {TaskItemInput} from "../types/plannerTypes";
+
+describe("parseTaskDetails", () => {
+  it("accepts steps with boolean completion in either spelling", () => {
+    const details = parseTaskDetails({
+      id: "t1",
+      text: "Do taxes",
+      steps: [
+        {id: "s1", text: "Find forms", isComplete: true},
+        {id: "s2", text: "File", is_complete: false},
+        {id: "s3", text: "Pay"},
+      ],
+    } as TaskItemInput);
+    assert.notEqual(typeof details, "string");
+    assert.deepEqual(
+      typeof details === "string" ?
+        [] :
+        details.steps?.map((step) => step.isComplete),
+      [true, false, false],
+    );
+  });
+
+  it("rejects a step completion that is not a boolean", () => {
+    const details = parseTaskDetails({
+      id: "t1",
+      text: "Do taxes",
+      steps: [{id: "s1", text: "Find forms", isComplete: "true"}],
+    } as unknown as TaskItemInput);
+    assert.equal(details, "Task \"Do taxes\": isComplete must be a boolean");
+  });
+});
@@ -0,0 +1,18 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {DEFAULT_TIME_ZONE, resolveTimeZone} from "../services/timezone";
+
+describe("resolveTimeZone", () => {
+  it("keeps a valid time zone", () => {
+    assert.equal(resolveTimeZone("America/New_York"), "America/New_York");
+  });
+
+  it("falls back for an unknown time zone", () => {
+    assert.equal(resolveTimeZone("Mars/Olympus_Mons"), DEFAULT_TIME_ZONE);
+  });
+
+  it("falls back for a value that is not a string", () => {
+    assert.equal(resolveTimeZone(42), DEFAULT_TIME_ZONE);
+    assert.equal(resolveTimeZone(undefined), DEFAULT_TIME_ZONE);
+  });
+});
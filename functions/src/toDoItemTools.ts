@@ -0,0 +1,218 @@
+/**
+ * To-Do Item Editing Tools
+ * Rename, delete and reorder items in a day's to-do list, which is stored
+ * as the tasks of the day's planner.
+ * These are served through the vapiTools dispatch endpoint.
+ */
+import { getFirestore } from "firebase-admin/firestore";
+import {
+  VapiToolCall,
+  EditToDoItemFunctionCall,
+  DeleteToDoItemsFunctionCall,
+  ReorderToDoItemsFunctionCall,
+} from "./types/todoTypes.js";
+import { TaskItem } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { resolveTargetDate } from "./services/dateRanges.js";
+import { ToolCallError, toolCallError } from "./services/vapiTools.js";
+import { runVersionedUpdate } from "./services/versionedDocuments.js";
+import { toToDoItems } from "./services/toDoCompat.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
+
+// Initialize Firestore
+const db = getFirestore();
+
+// Constants
+const MAX_ITEM_LENGTH = 500; // Maximum characters per to-do item
+
+/**
+ * Apply a change to a day's tasks and build the to-do tool result
+ */
+async function updateDayItems(
+  toolCall: VapiToolCall,
+  userId: string,
+  date: string | undefined,
+  expectedVersion: number | undefined,
+  message: string,
+  transform: (tasks: TaskItem[]) => TaskItem[]
+): Promise<VapiToolCallResult> {
+  const targetDate = await resolveTargetDate(userId, date);
+
+  // Move the day's items over if the migration has not reached this user
+  await migrateToDoDay(userId, targetDate);
+
+  // To-do items are stored as tasks in the day's planner
+  const plannerRef = db
+    .collection("users")
+    .doc(userId)
+    .collection("planner")
+    .doc(targetDate);
+
+  const now = new Date();
+  const { result: items, version } = await runVersionedUpdate(
+    plannerRef,
+    expectedVersion,
+    (currentData) => {
+      if (!currentData) {
+        throw new ToolCallError(`No to-do list found for ${targetDate}`, 404);
+      }
+
+      const updated = transform((currentData.tasks || []) as TaskItem[]);
+      return {
+        data: {
+          tasks: updated,
+          lastModified: now,
+          modifiedBy: toolCall.id,
+        },
+        result: toToDoItems({ ...currentData, tasks: updated }),
+      };
+    }
+  );
+
+  return {
+    toolCallId: toolCall.id,
+    result: {
+      success: true,
+      message,
+      timestamp: now.toISOString(),
+      date: targetDate,
+      items,
+      total_items: items.length,
+      completed_items: items.filter((item) => item.isComplete).length,
+      version,
+    },
+  };
+}
+
+/**
+ * Throw a not-found error for ids that are not in the list
+ */
+function assertItemsExist(items: TaskItem[], itemIds: string[]) {
+  const missing = itemIds.filter(
+    (id) => !items.some((item) => item.id === id)
+  );
+  if (missing.length > 0) {
+    throw new ToolCallError(`To-do item not found: ${missing.join(", ")}`, 404);
+  }
+}
+
+/**
+ * Check that a value is a non-empty list of item ids
+ */
+function isItemIdList(itemIds: unknown): itemIds is string[] {
+  return (
+    Array.isArray(itemIds) &&
+    itemIds.length > 0 &&
+    itemIds.every((id) => typeof id === "string" && id.length > 0)
+  );
+}
+
+/**
+ * Renames a to-do item in a single tool call
+ */
+export async function editToDoItem(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as EditToDoItemFunctionCall;
+  const { user_id, item_id, text, expected_version, date } = args;
+
+  // Validate request data
+  if (!user_id || !item_id || typeof text !== "string" || !text.trim()) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id, item_id or text"
+    );
+  }
+
+  if (text.length > MAX_ITEM_LENGTH) {
+    return toolCallError(
+      toolCall.id,
+      `Item text too long. Maximum length: ${MAX_ITEM_LENGTH} characters`
+    );
+  }
+
+  return updateDayItems(
+    toolCall,
+    user_id,
+    date,
+    expected_version,
+    "To-do item updated successfully",
+    (items) => {
+      assertItemsExist(items, [item_id]);
+      return items.map((item) =>
+        item.id === item_id ? { ...item, text: text.trim() } : item
+      );
+    }
+  );
+}
+
+/**
+ * Deletes to-do items in a single tool call
+ */
+export async function deleteToDoItems(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as DeleteToDoItemsFunctionCall;
+  const { user_id, item_ids, expected_version, date } = args;
+
+  // Validate request data
+  if (!user_id || !isItemIdList(item_ids)) {
+    return toolCallError(
+      toolCall.id,
+      "Invalid request. Must provide user_id and item_ids array."
+    );
+  }
+
+  return updateDayItems(
+    toolCall,
+    user_id,
+    date,
+    expected_version,
+    `Deleted ${item_ids.length} to-do item(s)`,
+    (items) => {
+      assertItemsExist(items, item_ids);
+      return items.filter((item) => !item_ids.includes(item.id));
+    }
+  );
+}
+
+/**
+ * Reorders to-do items in a single tool call
+ */
+export async function reorderToDoItems(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as ReorderToDoItemsFunctionCall;
+  const { user_id, item_ids, expected_version, date } = args;
+
+  // Validate request data
+  if (!user_id || !isItemIdList(item_ids)) {
+    return toolCallError(
+      toolCall.id,
+      "Invalid request. Must provide user_id and item_ids array."
+    );
+  }
+
+  if (new Set(item_ids).size !== item_ids.length) {
+    return toolCallError(toolCall.id, "item_ids must not contain duplicates");
+  }
+
+  return updateDayItems(
+    toolCall,
+    user_id,
+    date,
+    expected_version,
+    "To-do items reordered successfully",
+    (items) => {
+      assertItemsExist(items, item_ids);
+
+      // Listed items first in the given order, then the rest as they were
+      const listed = item_ids.map(
+        (id) => items.find((item) => item.id === id) as TaskItem
+      );
+      const rest = items.filter((item) => !item_ids.includes(item.id));
+      return [...listed, ...rest];
+    }
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * To-Do List Migration Job
+ */
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import { getFirestore } from "firebase-admin/firestore";
+import { UserProfile } from "./types/userTypes.js";
+import { migrateUserToDoLists } from "./services/toDoMigration.js";
+
+// Initialize Firestore
+const db = getFirestore();
+
+// Marks the migration finished for every user
+const statusRef = db.collection("migrations").doc("toDoLists");
+
+/**
+ * Scheduled function that moves every user's to-do lists into their
+ * planners. Users are marked once done, so a later run only picks up users
+ * that failed before, and once a run finishes without failures the job
+ * stops scanning users. The to-do tools and planner reads also move days
+ * on first use, so nothing goes missing while the job has not reached a
+ * user.
+ */
+export const migrateToDoListsToPlanner = onSchedule(
+  "every 60 minutes",
+  async () => {
+    if ((await statusRef.get()).data()?.completedAt) {
+      return;
+    }
+
+    const usersSnapshot = await db.collection("users").get();
+
+    let migrated = 0;
+    let itemsMoved = 0;
+    let failed = 0;
+
+    for (const userDoc of usersSnapshot.docs) {
+      const user = userDoc.data() as UserProfile;
+      if (user.toDoListsMigratedAt) {
+        continue;
+      }
+
+      try {
+        itemsMoved += await migrateUserToDoLists(userDoc.id);
+        migrated++;
+      } catch (error) {
+        failed++;
+        logger.error(
+          `Error migrating to-do lists for user ${userDoc.id}:`,
+          error
+        );
+      }
+    }
+
+    logger.info("To-do list migration finished", {
+      users: usersSnapshot.size,
+      migrated,
+      itemsMoved,
+      failed,
+    });
+
+    // To-do lists are no longer written, so no user can need it again
+    if (failed === 0) {
+      await statusRef.set({ completedAt: new Date() });
+    }
+  }
+);
@@ -28,11 +28,28 @@ export interface CalendarEvent {
   };
   status: string;
   htmlLink: string;
+  calendarId?: string;
+}
+
+// Stored under users/{userId}/integrations/google_calendar
+export interface GoogleCalendarConnection {
+  encryptedRefreshToken: string;
+  scope: string;
+  connectedAt: Date;
+  updatedAt: Date;
 }
 
 // Get calendar events endpoint arguments
+// start_date/end_date accept YYYY-MM-DD or "today", "tomorrow",
+// "yesterday", "this week", "next week", "last week" (user's local time)
 export interface GetCalendarEventsArguments {
   user_id: string;
+  start_date?: string; // defaults to "today"
+  end_date?: string; // defaults to the end of start_date
+  calendar_ids?: string[]; // defaults to ["primary"]
+  query?: string; // free text search
+  page_token?: string; // nextPageToken from a previous call
+  max_results?: number;
 }
 
 // Function call interfaces for the calendar endpoint
@@ -41,11 +58,63 @@ export interface GetCalendarEventsFunctionCall {
   name: string;
 }
 
+// Create calendar event arguments
+// start/end accept "YYYY-MM-DD" for all-day events or a local date-time
+// such as "2025-06-01T18:00:00" in the user's time zone
+export interface CreateCalendarEventArguments {
+  user_id: string;
+  summary: string;
+  start: string;
+  end?: string;
+  duration_minutes?: number; // used when end is not given, defaults to 60
+  description?: string;
+  location?: string;
+  calendar_id?: string;
+}
+
+// Update (move or edit) calendar event arguments
+export interface UpdateCalendarEventArguments {
+  user_id: string;
+  event_id: string;
+  summary?: string;
+  start?: string;
+  end?: string; // keeps the original duration when only start changes
+  description?: string;
+  location?: string;
+  calendar_id?: string;
+}
+
+// Delete calendar event arguments
+export interface DeleteCalendarEventArguments {
+  user_id: string;
+  event_id: string;
+  calendar_id?: string;
+}
+
+export interface CreateCalendarEventFunctionCall {
+  arguments: CreateCalendarEventArguments;
+  name: string;
+}
+
+export interface UpdateCalendarEventFunctionCall {
+  arguments: UpdateCalendarEventArguments;
+  name: string;
+}
+
+export interface DeleteCalendarEventFunctionCall {
+  arguments: DeleteCalendarEventArguments;
+  name: string;
+}
+
 // Update the VAPI interfaces to include the new function call type
-import { VapiToolCall as BaseVapiToolCall } from './plannerTypes';
+import { VapiToolCall as BaseVapiToolCall, OperationResponse } from './plannerTypes';
 
 export interface CalendarVapiToolCall extends Omit<BaseVapiToolCall, 'function'> {
-  function: GetCalendarEventsFunctionCall;
+  function:
+    | GetCalendarEventsFunctionCall
+    | CreateCalendarEventFunctionCall
+    | UpdateCalendarEventFunctionCall
+    | DeleteCalendarEventFunctionCall;
 }
 
 // Response interface for calendar events
@@ -53,3 +122,8 @@ export interface CalendarEventsResponse {
   events: CalendarEvent[];
   nextPageToken?: string;
 }
+
+// Response interface for calendar event writes
+export interface CalendarEventResponse extends OperationResponse {
+  event: CalendarEvent;
+}
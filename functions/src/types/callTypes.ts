@@ -0,0 +1,77 @@
+/**
+ * Shared types for Vapi call history
+ */
+import { ScheduledCallType } from "./userTypes";
+import { VapiGenericToolCall } from "./vapiTypes";
+
+// Call status as reported by Vapi status-update messages
+export type VapiCallStatus =
+  | "scheduled"
+  | "queued"
+  | "ringing"
+  | "in-progress"
+  | "forwarding"
+  | "ended";
+
+// Call object sent with every Vapi server message (fields used here)
+export interface VapiServerCall {
+  id: string;
+  assistantOverrides?: {
+    variableValues?: Record<string, unknown>; // user_id set by scheduleVapiCall
+  };
+}
+
+export interface VapiStatusUpdateMessage {
+  type: "status-update";
+  status: VapiCallStatus;
+  endedReason?: string;
+  call: VapiServerCall;
+}
+
+export interface VapiEndOfCallReportMessage {
+  type: "end-of-call-report";
+  endedReason: string; // e.g. "customer-ended-call", "customer-did-not-answer"
+  call: VapiServerCall;
+  startedAt?: string; // ISO timestamp
+  endedAt?: string;
+  durationSeconds?: number;
+  artifact?: {
+    transcript?: string;
+  };
+  analysis?: {
+    summary?: string;
+  };
+  transcript?: string; // older payloads send these at the top level
+  summary?: string;
+}
+
+// Tool calls sent to the assistant's server URL
+export interface VapiToolCallsMessage {
+  type: "tool-calls";
+  toolCallList: VapiGenericToolCall[];
+  call?: VapiServerCall;
+}
+
+export type VapiServerMessage =
+  | VapiToolCallsMessage
+  | VapiStatusUpdateMessage
+  | VapiEndOfCallReportMessage;
+
+export interface VapiServerMessageRequest {
+  message: VapiServerMessage;
+}
+
+// Document stored under users/{userId}/calls/{vapiCallId}
+export interface CallRecord {
+  vapiCallId: string;
+  callType?: ScheduledCallType; // set when the call was booked by us
+  status: VapiCallStatus;
+  endedReason?: string;
+  startedAt?: Date;
+  endedAt?: Date;
+  durationSeconds?: number;
+  transcript?: string;
+  summary?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
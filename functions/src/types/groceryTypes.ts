@@ -0,0 +1,77 @@
+/**
+ * Shared types for weekly meal planning and grocery lists
+ */
+import {
+  VapiToolCall as BaseVapiToolCall,
+  PartialMealPlan,
+} from "./plannerTypes";
+
+// One ingredient to buy, combined from every meal that uses it
+export interface GroceryItem {
+  id: string;
+  name: string; // e.g. "banana"
+  lines: string[]; // ingredient lines as written, e.g. ["2 bananas"]
+  meals: string[]; // where it is used, e.g. ["2025-06-02 breakfast"]
+  isChecked: boolean;
+}
+
+// Document stored under users/{userId}/grocery_lists/{weekStart}
+export interface GroceryListDocument {
+  weekStart: string; // Monday, YYYY-MM-DD
+  weekEnd: string; // Sunday, YYYY-MM-DD
+  items: GroceryItem[];
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number; // incremented on every write
+}
+
+// Meals for one day of the week
+export interface DayMealPlan extends PartialMealPlan {
+  day: string; // "monday" or "YYYY-MM-DD" within the week
+}
+
+// Plan week meals arguments
+// week_of takes "this week", "next week" or any date in the week
+export interface PlanWeekMealsArguments {
+  user_id: string;
+  week_of?: string; // defaults to "this week"
+  days: DayMealPlan[];
+}
+
+// Generate / get grocery list arguments
+export interface GroceryListArguments {
+  user_id: string;
+  week_of?: string; // defaults to "this week"
+}
+
+// Check off grocery items arguments
+export interface CheckGroceryItemsArguments {
+  user_id: string;
+  week_of?: string; // defaults to "this week"
+  item_ids: string[];
+  is_checked?: boolean; // defaults to true
+  expected_version?: number; // fails with a conflict if the list changed
+}
+
+export interface PlanWeekMealsFunctionCall {
+  arguments: PlanWeekMealsArguments;
+  name: string;
+}
+
+export interface GroceryListFunctionCall {
+  arguments: GroceryListArguments;
+  name: string;
+}
+
+export interface CheckGroceryItemsFunctionCall {
+  arguments: CheckGroceryItemsArguments;
+  name: string;
+}
+
+export interface GroceryVapiToolCall
+  extends Omit<BaseVapiToolCall, "function"> {
+  function:
+    | PlanWeekMealsFunctionCall
+    | GroceryListFunctionCall
+    | CheckGroceryItemsFunctionCall;
+}
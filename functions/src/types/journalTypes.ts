@@ -0,0 +1,70 @@
+/**
+ * Shared types for Journal functionality
+ */
+import { VapiToolCall as BaseVapiToolCall } from "./plannerTypes";
+
+// Document stored under users/{userId}/journal/{date}
+export interface JournalEntry {
+  date: string; // local YYYY-MM-DD the entry belongs to
+  text: string;
+  mood?: number; // 1 (worst) to 10 (best)
+  tags: string[]; // lowercase, no duplicates
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number; // incremented on every write
+}
+
+// Create journal entry arguments
+export interface CreateJournalEntryArguments {
+  user_id: string;
+  text: string;
+  mood?: number;
+  tags?: string[];
+  date?: string; // "YYYY-MM-DD" or "yesterday", defaults to today
+}
+
+// Append to journal entry arguments
+// Creates the entry if the day has none yet
+export interface AppendJournalEntryArguments {
+  user_id: string;
+  text: string;
+  mood?: number; // replaces the stored mood
+  tags?: string[]; // added to the stored tags
+  date?: string; // "YYYY-MM-DD" or "yesterday", defaults to today
+  expected_version?: number; // fails with a conflict if the entry changed
+}
+
+// List journal entries arguments
+// date takes "YYYY-MM-DD" or a phrase such as "last week"; with no dates
+// the current week is listed
+export interface GetJournalEntriesArguments {
+  user_id: string;
+  date?: string;
+  start_date?: string;
+  end_date?: string;
+  tag?: string; // only entries with this tag
+  query?: string; // only entries whose text contains this
+}
+
+export interface CreateJournalEntryFunctionCall {
+  arguments: CreateJournalEntryArguments;
+  name: string;
+}
+
+export interface AppendJournalEntryFunctionCall {
+  arguments: AppendJournalEntryArguments;
+  name: string;
+}
+
+export interface GetJournalEntriesFunctionCall {
+  arguments: GetJournalEntriesArguments;
+  name: string;
+}
+
+export interface JournalVapiToolCall
+  extends Omit<BaseVapiToolCall, "function"> {
+  function:
+    | CreateJournalEntryFunctionCall
+    | AppendJournalEntryFunctionCall
+    | GetJournalEntriesFunctionCall;
+}
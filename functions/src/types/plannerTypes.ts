@@ -2,64 +2,205 @@
  * Shared types for Planner functionality
  */
 
-export interface TaskItem {
+export type TaskPriority = "high" | "medium" | "low";
+
+// How getTodaysPlanner orders tasks; stored order is used when not given
+export type TaskSortOrder = "time" | "priority";
+
+// Ordered checklist step under a planner task
+export interface TaskStep {
   id: string;
   text: string;
   isComplete: boolean;
 }
 
+// Step as sent by the assistant; the ID is generated when missing
+export interface TaskStepInput {
+  id?: string;
+  text: string;
+  isComplete?: boolean;
+  is_complete?: boolean;
+}
+
+// The one task model: planner tasks and to-do items are both stored as
+// tasks in users/{userId}/planner/{date}
+export interface TaskItem {
+  id: string;
+  text: string;
+  isComplete: boolean; // set automatically once every step is complete
+  createdAt?: Date; // missing on tasks written before to-dos were merged
+  steps?: TaskStep[];
+  rolloverCount?: number; // days this task was carried over unfinished
+  priority?: TaskPriority;
+  scheduledTime?: string; // local "HH:MM", 24-hour
+  durationMinutes?: number; // estimated time needed
+  category?: string; // e.g. "errands", "finance"
+  notes?: string;
+}
+
 // Flexible input type for API compatibility (accepts both naming conventions)
 export interface TaskItemInput {
   id: string;
   text: string;
   isComplete?: boolean;
   is_complete?: boolean; // using both because vapi was sending either of these
+  priority?: TaskPriority;
+  scheduledTime?: string; // "14:00" or "2:30 PM"
+  scheduled_time?: string;
+  durationMinutes?: number;
+  duration_minutes?: number;
+  category?: string;
+  notes?: string;
+  steps?: TaskStepInput[];
+}
+
+// One food in a meal slot
+export interface MealItem {
+  id: string;
+  name: string;
+  quantity?: string; // free text, e.g. "2 cups"
+  calories?: number; // kcal
+  protein?: number; // grams
+}
+
+// Meal item as sent by the assistant; the ID is generated when missing
+export interface MealItemInput {
+  id?: string;
+  name: string;
+  quantity?: string;
+  calories?: number;
+  protein?: number;
 }
 
 export interface MealPlan {
-  breakfast: string;
-  lunch: string;
-  snacks: string;
-  dinner: string;
+  breakfast: MealItem[];
+  lunch: MealItem[];
+  snacks: MealItem[];
+  dinner: MealItem[];
 }
 
+export type MealType = keyof MealPlan;
+
+// Meals as stored. Planners written before meals had items hold one
+// description string per meal, which is read as a single item.
+export type StoredMealPlan = Record<MealType, string | MealItem[]>;
+
+// A meal is replaced by a description string, stored as one item, or a
+// list of items
 export interface PartialMealPlan {
-  breakfast?: string;
-  lunch?: string;
-  snacks?: string;
-  dinner?: string;
+  breakfast?: string | MealItemInput[];
+  lunch?: string | MealItemInput[];
+  snacks?: string | MealItemInput[];
+  dinner?: string | MealItemInput[];
+}
+
+// Nutrition summed over the items that have values
+export interface NutritionTotals {
+  calories: number;
+  protein: number;
 }
 
 export interface PlannerDocument {
   tasks: TaskItem[];
-  meals: MealPlan;
+  meals: StoredMealPlan;
   createdAt: Date;
   lastModified: Date;
   modifiedBy: string;
+  version?: number; // incremented on every write
+  rolledOverTo?: string; // date the unfinished tasks were carried into
 }
 
 // Get planner endpoint arguments
 export interface GetPlannerArguments {
   user_id: string;
+  sort_by?: TaskSortOrder;
+}
+
+// Get planners for a date or date range
+// date takes "YYYY-MM-DD" or a phrase such as "yesterday" or "this week"
+export interface GetPlannersArguments {
+  user_id: string;
+  date?: string;
+  start_date?: string;
+  end_date?: string;
 }
 
 // Update tasks endpoint arguments
+// Send operations to change the stored tasks, or tasks with replace: true
+// to overwrite the whole list
 export interface UpdateTasksArguments {
   user_id: string;
-  tasks: TaskItemInput[];
+  operations?: TaskOperation[];
+  tasks?: TaskItemInput[];
+  replace?: boolean; // required when sending tasks
+  expected_version?: number; // fails with a conflict if the planner changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
+}
+
+// Adds a task; the server generates its ID
+export interface AddTaskOperation extends Omit<TaskItemInput, "id"> {
+  op: "add";
+  position?: number; // index to insert at, defaults to the end
+}
+
+export interface RemoveTaskOperation {
+  op: "remove";
+  task_id: string;
 }
 
+export interface RenameTaskOperation {
+  op: "rename";
+  task_id: string;
+  text: string;
+}
+
+export interface MoveTaskOperation {
+  op: "move";
+  task_id: string;
+  position: number; // index in the list after the move, 0 is first
+}
+
+// Change applied to the stored tasks, in order
+export type TaskOperation =
+  | AddTaskOperation
+  | RemoveTaskOperation
+  | RenameTaskOperation
+  | MoveTaskOperation;
+
 // Update task completion status arguments
 export interface UpdateTaskCompletionArguments {
   user_id: string;
   task_id: string;
+  step_id?: string; // update one step of the task instead of the task
   is_complete: boolean;
+  expected_version?: number; // fails with a conflict if the planner changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
 }
 
 // Update meals endpoint arguments
 export interface UpdateMealsArguments {
   user_id: string;
   meals: PartialMealPlan;
+  expected_version?: number; // fails with a conflict if the planner changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
+}
+
+// Add items to a meal arguments
+export interface AddMealItemsArguments {
+  user_id: string;
+  meal: MealType;
+  items: MealItemInput[];
+  expected_version?: number; // fails with a conflict if the planner changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
+}
+
+// Remove items from a meal arguments
+export interface RemoveMealItemsArguments {
+  user_id: string;
+  meal: MealType;
+  item_ids: string[];
+  expected_version?: number; // fails with a conflict if the planner changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
 }
 
 // Function call interfaces for each endpoint
@@ -68,6 +209,11 @@ export interface GetPlannerFunctionCall {
   name: string;
 }
 
+export interface GetPlannersFunctionCall {
+  arguments: GetPlannersArguments;
+  name: string;
+}
+
 export interface UpdateTasksFunctionCall {
   arguments: UpdateTasksArguments;
   name: string;
@@ -83,13 +229,26 @@ export interface UpdateMealsFunctionCall {
   name: string;
 }
 
+export interface AddMealItemsFunctionCall {
+  arguments: AddMealItemsArguments;
+  name: string;
+}
+
+export interface RemoveMealItemsFunctionCall {
+  arguments: RemoveMealItemsArguments;
+  name: string;
+}
+
 // Base VAPI interfaces
 export interface VapiToolCall {
   function:
     | GetPlannerFunctionCall
+    | GetPlannersFunctionCall
     | UpdateTasksFunctionCall
     | UpdateTaskCompletionFunctionCall
-    | UpdateMealsFunctionCall;
+    | UpdateMealsFunctionCall
+    | AddMealItemsFunctionCall
+    | RemoveMealItemsFunctionCall;
   id: string;
   type: string;
 }
@@ -108,14 +267,32 @@ export interface OperationResponse {
   message: string;
   timestamp: string;
   operation_id?: string;
+  version?: number; // document version after the change
 }
 
-export interface TasksResponse extends OperationResponse {
-  tasks: TaskItem[];
+// Task and step counts; steps are counted across all tasks
+export interface TaskCounts {
   total_tasks: number;
   completed_tasks: number;
+  total_steps: number;
+  completed_steps: number;
+}
+
+export interface TasksResponse extends OperationResponse, TaskCounts {
+  tasks: TaskItem[];
+  added_task_ids?: string[]; // IDs generated for tasks added by operations
 }
 
 export interface MealsResponse extends OperationResponse {
   meals: MealPlan;
+  nutrition: NutritionTotals;
+}
+
+// One day's planner with its completion stats
+export interface PlannerDay extends TaskCounts {
+  date: string;
+  tasks: TaskItem[];
+  meals: MealPlan;
+  nutrition: NutritionTotals;
+  version: number;
 }
@@ -0,0 +1,58 @@
+/**
+ * Shared types for productivity stats
+ */
+import { VapiToolCall as BaseVapiToolCall } from "./plannerTypes";
+
+// Get productivity stats arguments
+// date takes "YYYY-MM-DD" or a phrase such as "this week" or "last week";
+// with no dates the current week is used
+export interface GetProductivityStatsArguments {
+  user_id: string;
+  date?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface GetProductivityStatsFunctionCall {
+  arguments: GetProductivityStatsArguments;
+  name: string;
+}
+
+export interface StatsVapiToolCall extends Omit<BaseVapiToolCall, "function"> {
+  function: GetProductivityStatsFunctionCall;
+}
+
+// Completed share of a set of items
+export interface CompletionStats {
+  total: number;
+  completed: number;
+  completion_rate: number; // 0 to 1
+}
+
+// Items planned and finished on one day of the week
+export interface WeekdayStats {
+  weekday: string; // "Monday"
+  total_items: number;
+  completed_items: number;
+}
+
+// An item left unfinished on one or more days
+export interface SkippedItem {
+  text: string;
+  times_skipped: number;
+}
+
+export interface ProductivityStats {
+  start_date: string;
+  end_date: string; // never after today
+  time_zone: string;
+  days_planned: number; // days with at least one to-do or task
+  perfect_days: number; // planned days with everything done
+  to_dos: CompletionStats; // same as tasks now that to-dos are planner tasks
+  tasks: CompletionStats;
+  overall: CompletionStats;
+  current_streak: number; // perfect days in a row up to today
+  longest_streak: number;
+  busiest_weekdays: WeekdayStats[]; // most items first
+  most_skipped: SkippedItem[];
+}
@@ -1,18 +1,37 @@
 /**
  * Shared types for To-Do List functionality
+ * To-do items are stored as tasks in the day's planner. The to-do tools
+ * still take and return these shapes so existing assistants keep working.
  */
 
+// A planner task as returned by the to-do tools
 export interface ToDoItem {
   id: string;
   text: string;
   isComplete: boolean;
   createdAt: Date;
+  rolloverCount?: number; // days this item was carried over unfinished
+}
+
+// Legacy document under users/{userId}/to_do_list/{date}, read only by the
+// migration into the planner
+export interface ToDoListDocument {
+  items: ToDoItem[];
+  created_at: Date;
+  updated_at: Date;
+  vapi_tool_call_id: string;
+  version?: number;
+  rolledOverTo?: string;
+  migratedTo?: "planner"; // set once the items were moved to the planner
+  migratedAt?: Date;
 }
 
 // Create endpoint arguments
 export interface CreateToDoArguments {
   to_do_list: string[];
   user_id: string;
+  expected_version?: number; // fails with a conflict if the list changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
 }
 
 // Update endpoint arguments
@@ -23,6 +42,34 @@ export interface UpdateToDoArguments {
     isComplete?: boolean;
     is_complete?: boolean; // using both because vapi was sending either of these
   }[];
+  expected_version?: number; // fails with a conflict if the list changed
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
+}
+
+// Edit (rename) item arguments
+export interface EditToDoItemArguments {
+  user_id: string;
+  item_id: string;
+  text: string;
+  expected_version?: number;
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
+}
+
+// Delete items arguments
+export interface DeleteToDoItemsArguments {
+  user_id: string;
+  item_ids: string[];
+  expected_version?: number;
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
+}
+
+// Reorder items arguments
+// Listed items move to the top in the given order, the rest keep their order
+export interface ReorderToDoItemsArguments {
+  user_id: string;
+  item_ids: string[];
+  expected_version?: number;
+  date?: string; // "YYYY-MM-DD" or "tomorrow", defaults to today
 }
 
 // Get endpoint arguments
@@ -30,6 +77,24 @@ export interface GetToDoArguments {
   user_id: string;
 }
 
+// Get lists for a date or date range
+// date takes "YYYY-MM-DD" or a phrase such as "yesterday" or "this week"
+export interface GetToDoListsArguments {
+  user_id: string;
+  date?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+// One day's to-do list with its completion stats
+export interface ToDoDay {
+  date: string;
+  items: ToDoItem[];
+  total_items: number;
+  completed_items: number;
+  version: number;
+}
+
 // Function call interfaces for each endpoint
 export interface CreateToDoFunctionCall {
   arguments: CreateToDoArguments;
@@ -46,12 +111,36 @@ export interface GetToDoFunctionCall {
   name: string;
 }
 
+export interface GetToDoListsFunctionCall {
+  arguments: GetToDoListsArguments;
+  name: string;
+}
+
+export interface EditToDoItemFunctionCall {
+  arguments: EditToDoItemArguments;
+  name: string;
+}
+
+export interface DeleteToDoItemsFunctionCall {
+  arguments: DeleteToDoItemsArguments;
+  name: string;
+}
+
+export interface ReorderToDoItemsFunctionCall {
+  arguments: ReorderToDoItemsArguments;
+  name: string;
+}
+
 // Base VAPI interfaces
 export interface VapiToolCall {
   function:
     | CreateToDoFunctionCall
     | UpdateToDoFunctionCall
-    | GetToDoFunctionCall;
+    | GetToDoFunctionCall
+    | GetToDoListsFunctionCall
+    | EditToDoItemFunctionCall
+    | DeleteToDoItemsFunctionCall
+    | ReorderToDoItemsFunctionCall;
   id: string;
   type: string;
 }
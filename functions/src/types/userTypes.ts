@@ -0,0 +1,65 @@
+/**
+ * Shared types for User profiles and scheduled calls
+ */
+
+export type CallType = "morning" | "evening";
+
+// Calls booked outside the daily routine, such as the welcome call
+export type ScheduledCallType = CallType | "welcome";
+
+// Fields read from users/{userId}
+export interface UserProfile {
+  name?: string;
+  phoneNumber?: string;
+  timeZone?: string;
+  morningCallTime?: string; // e.g. "8:00 AM", local to timeZone
+  eveningCallTime?: string; // e.g. "9:00 PM", local to timeZone
+  morningCallsEnabled?: boolean; // opted in unless explicitly false
+  eveningCallsEnabled?: boolean; // opted in unless explicitly false
+  rolloverEnabled?: boolean; // carry unfinished items to the next day
+  callRetryAttempts?: number; // follow-up calls after a missed call, 0 for none
+  callRetryGapMinutes?: number; // wait between a missed call and its retry
+  callWindowMinutes?: number; // retries start no later than this after the call
+  toDoListsMigratedAt?: Date; // set once every to-do list is in the planner
+  // Calls whose new time could not be booked, cleared once one is booked
+  callScheduleFailures?: Partial<Record<CallType, CallScheduleFailure>>;
+}
+
+// Why a changed call could not be booked
+export interface CallScheduleFailure {
+  error: string;
+  failedAt: Date;
+}
+
+export type ScheduledCallStatus = "scheduled" | "cancelled";
+
+// Document stored under users/{userId}/scheduled_calls/{vapiCallId}
+export interface ScheduledCallRecord {
+  vapiCallId: string | null;
+  status: ScheduledCallStatus;
+  callType: ScheduledCallType;
+  callTime: string;
+  timeZone: string;
+  date: string; // local YYYY-MM-DD the call falls on
+  scheduledFor: Date;
+  createdAt: Date;
+  cancelledAt?: Date;
+  attempt?: number; // 1 for the booked call, 2 and up for retries
+  retryOf?: string; // vapiCallId of the first call of the retries
+  windowEndsAt?: Date; // no retry is booked after this
+  endedReason?: string; // from the call's end-of-call report
+  endedAt?: Date;
+  retryCallId?: string | null; // retry booked after this call was missed
+  retriedAt?: Date;
+  retryClaimedAt?: Date; // set before the retry is booked, so it is booked once
+}
+
+// Anonymized record written to deletion_receipts when a user is deleted
+export interface DeletionReceipt {
+  subjectHash: string; // HMAC of the user ID, never the ID itself
+  deletedAt: Date;
+  collections: Record<string, number>; // documents deleted per subcollection
+  documentsDeleted: number;
+  callsCancelled: number;
+  status: "completed" | "partial";
+}
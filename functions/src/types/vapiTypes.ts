@@ -0,0 +1,31 @@
+/**
+ * Shared types for Vapi tool call responses
+ */
+
+// One entry of the results[] array Vapi expects back from a tool server
+export interface VapiToolCallResult {
+  toolCallId: string;
+  result?: unknown;
+  error?: string;
+  code?: number; // HTTP-style status for errors, e.g. 409 for conflicts
+}
+
+export interface VapiToolCallResponse {
+  results: VapiToolCallResult[];
+}
+
+// Tool call as received before it is routed to a specific tool. Each tool's
+// own call type narrows the arguments.
+export interface VapiGenericToolCall {
+  id: string;
+  type: string;
+  function: {
+    name: string;
+    arguments: unknown;
+  };
+}
+
+// Handles one tool call and builds its results[] entry
+export type VapiToolHandler<
+  T extends VapiGenericToolCall = VapiGenericToolCall,
+> = (toolCall: T) => Promise<VapiToolCallResult>;
@@ -1,17 +1,33 @@
 /**
  * Update Meals Endpoint
  */
-import { onRequest } from "firebase-functions/v2/https";
-import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
 import {
-  PlannerDocument,
-  VapiRequest,
-  UpdateMealsFunctionCall,
-  MealsResponse,
+  AddMealItemsFunctionCall,
   MealPlan,
-  PartialMealPlan,
+  MealType,
+  MealsResponse,
+  RemoveMealItemsFunctionCall,
+  UpdateMealsFunctionCall,
+  VapiToolCall,
 } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { resolveTargetDate } from "./services/dateRanges.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
+import {
+  ToolCallError,
+  createToolEndpoint,
+  toolCallError,
+} from "./services/vapiTools.js";
+import {
+  MEAL_TYPES,
+  createMealItems,
+  getNutritionTotals,
+  mergeMealsIntoPlanner,
+  updatePlannerMeals,
+  validateMealItems,
+  validateMeals,
+} from "./services/mealPlanning.js";
 
 // Initialize Firestore
 const db = getFirestore();
@@ -19,207 +35,232 @@ const db = getFirestore();
 // API key for authentication
 const API_KEY = process.env.VAPI_API_KEY || "";
 
-// Constants
-const MAX_MEAL_LENGTH = 1000; // Maximum characters per meal description
+/**
+ * HTTP-triggered function that updates meals in a day's planner
+ */
+export const updateMeals = createToolEndpoint(
+  "updateMeals",
+  [API_KEY],
+  mergeMeals
+);
+
+/**
+ * Merges meals into a day's planner in a single tool call
+ */
+export async function mergeMeals(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as UpdateMealsFunctionCall;
+  const { user_id, meals, expected_version, date } = args;
+
+  // Validate required fields
+  if (!user_id || !meals) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id or meals"
+    );
+  }
+
+  // Validate meals object structure
+  const mealsError = validateMeals(meals);
+  if (mealsError) {
+    return toolCallError(toolCall.id, mealsError);
+  }
+
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's to-do items over if the migration has not reached this
+  // user, so the tasks written here include them
+  await migrateToDoDay(user_id, targetDate);
 
-type MealType = keyof PartialMealPlan;
+  // Reference to the day's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  // Merge the meals in a transaction so concurrent writes are not lost
+  const now = new Date();
+  const { result: finalMeals, version } = await mergeMealsIntoPlanner(
+    plannerRef,
+    expected_version,
+    meals,
+    toolCall.id
+  );
+
+  return mealsResult(
+    toolCall,
+    "Meals updated successfully",
+    now,
+    finalMeals,
+    version
+  );
+}
 
 /**
- * HTTP-triggered function that updates meals in today's planner
+ * Build the tool result for a day's meals with its nutrition totals
  */
-export const updateMeals = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Update meals request", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
-
-    // Only allow POST requests
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
+function mealsResult(
+  toolCall: VapiToolCall,
+  message: string,
+  now: Date,
+  meals: MealPlan,
+  version: number
+): VapiToolCallResult {
+  // Prepare response
+  const response: MealsResponse = {
+    success: true,
+    message,
+    timestamp: now.toISOString(),
+    operation_id: toolCall.id,
+    version,
+    meals,
+    nutrition: getNutritionTotals(meals),
+  };
 
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
+  return {
+    toolCallId: toolCall.id,
+    result: response,
+  };
+}
 
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
+/**
+ * Check a meal argument
+ */
+function isMealType(meal: unknown): meal is MealType {
+  return MEAL_TYPES.includes(meal as MealType);
+}
 
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { arguments: args } = toolCall.function as UpdateMealsFunctionCall;
-    const { user_id, meals } = args;
-
-    // Validate required fields
-    if (!user_id || !meals) {
-      res.status(400).json({
-        success: false,
-        error: "Missing required fields: user_id or meals",
-        code: 400,
-      });
-      return;
-    }
+/**
+ * Adds items to one meal of a day's planner in a single tool call
+ */
+export async function addMealItems(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as AddMealItemsFunctionCall;
+  const { user_id, meal, items, expected_version, date } = args;
 
-    // Validate meals object structure
-    const allowedMealTypes: MealType[] = [
-      "breakfast",
-      "lunch",
-      "snacks",
-      "dinner",
-    ];
-    const providedMealTypes = Object.keys(meals) as MealType[];
-
-    // Check if at least one meal type is provided
-    if (providedMealTypes.length === 0) {
-      res.status(400).json({
-        success: false,
-        error:
-          "At least one meal type must be provided (breakfast, lunch, snacks, dinner)",
-        code: 400,
-      });
-      return;
-    }
+  // Validate required fields
+  if (!user_id || !meal || !items) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id, meal or items"
+    );
+  }
 
-    // Validate only the provided meal types
-    for (const mealType of providedMealTypes) {
-      if (!allowedMealTypes.includes(mealType)) {
-        res.status(400).json({
-          success: false,
-          error: `Invalid meal type: ${mealType}. Allowed types: ${allowedMealTypes.join(
-            ", "
-          )}`,
-          code: 400,
-        });
-        return;
-      }
+  if (!isMealType(meal)) {
+    return toolCallError(
+      toolCall.id,
+      `Invalid meal: ${meal}. Allowed types: ${MEAL_TYPES.join(", ")}`
+    );
+  }
 
-      const mealValue = meals[mealType];
-      if (mealValue === undefined || typeof mealValue !== "string") {
-        res.status(400).json({
-          success: false,
-          error: `${mealType} must be a string`,
-          code: 400,
-        });
-        return;
-      }
+  const itemsError = validateMealItems(items, meal);
+  if (itemsError) {
+    return toolCallError(toolCall.id, itemsError);
+  }
 
-      if (mealValue.length > MAX_MEAL_LENGTH) {
-        res.status(400).json({
-          success: false,
-          error: `${mealType} description too long. Maximum length: ${MAX_MEAL_LENGTH} characters`,
-          code: 400,
-        });
-        return;
-      }
-    }
+  const targetDate = await resolveTargetDate(user_id, date);
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split("T")[0];
-
-    // Reference to today's planner document
-    const plannerRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("planner")
-      .doc(today);
-
-    // Get the current document or create new if doesn't exist
-    const doc = await plannerRef.get();
-    const now = new Date();
-
-    if (!doc.exists) {
-      // Create new planner document with default empty meals, then update with provided meals
-      const defaultMeals: MealPlan = {
-        breakfast: "",
-        lunch: "",
-        snacks: "",
-        dinner: "",
-      };
+  // Move the day's to-do items over if the migration has not reached this
+  // user, so the tasks written here include them
+  await migrateToDoDay(user_id, targetDate);
 
-      const newPlanner: PlannerDocument = {
-        tasks: [],
-        meals: { ...defaultMeals, ...meals },
-        createdAt: now,
-        lastModified: now,
-        modifiedBy: toolCall.id,
-      };
+  // Reference to the day's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
 
-      await plannerRef.set(newPlanner);
-    } else {
-      // Get existing data and merge with new meals
-      const existingData = doc.data() as PlannerDocument;
-      const updatedMeals = { ...existingData.meals, ...meals };
-
-      // Update existing planner document
-      await plannerRef.update({
-        meals: updatedMeals,
-        lastModified: now,
-        modifiedBy: toolCall.id,
-      });
-    }
+  const newItems = createMealItems(items);
+  const now = new Date();
+  const { result: finalMeals, version } = await updatePlannerMeals(
+    plannerRef,
+    expected_version,
+    toolCall.id,
+    (current) => ({ ...current, [meal]: [...current[meal], ...newItems] })
+  );
+
+  return mealsResult(
+    toolCall,
+    `Added ${newItems.length} item(s) to ${meal}`,
+    now,
+    finalMeals,
+    version
+  );
+}
 
-    // Get the final meal state for response
-    const finalDoc = await plannerRef.get();
-    const finalData = finalDoc.data() as PlannerDocument;
-
-    // Prepare response
-    const response: MealsResponse = {
-      success: true,
-      message: "Meals updated successfully",
-      timestamp: now.toISOString(),
-      operation_id: toolCall.id,
-      meals: finalData.meals,
-    };
-
-    // Return success response
-    res.status(200).json({
-      results: [
-        {
-          toolCallId: toolCall.id,
-          result: response,
-        },
-      ],
-    });
-  } catch (error) {
-    logger.error("Error in updateMeals", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
+/**
+ * Removes items from one meal of a day's planner in a single tool call
+ */
+export async function removeMealItems(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as RemoveMealItemsFunctionCall;
+  const { user_id, meal, item_ids, expected_version, date } = args;
+
+  // Validate required fields
+  if (
+    !user_id ||
+    !Array.isArray(item_ids) ||
+    item_ids.length === 0 ||
+    item_ids.some((id) => typeof id !== "string")
+  ) {
+    return toolCallError(
+      toolCall.id,
+      "Invalid request. Must provide user_id, meal and item_ids array."
+    );
   }
-});
+
+  if (!isMealType(meal)) {
+    return toolCallError(
+      toolCall.id,
+      `Invalid meal: ${meal}. Allowed types: ${MEAL_TYPES.join(", ")}`
+    );
+  }
+
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's to-do items over if the migration has not reached this
+  // user, so the tasks written here include them
+  await migrateToDoDay(user_id, targetDate);
+
+  // Reference to the day's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  const now = new Date();
+  const { result: finalMeals, version } = await updatePlannerMeals(
+    plannerRef,
+    expected_version,
+    toolCall.id,
+    (current) => {
+      const missing = item_ids.filter(
+        (id) => !current[meal].some((item) => item.id === id)
+      );
+      if (missing.length > 0) {
+        throw new ToolCallError(
+          `Meal item not found in ${meal}: ${missing.join(", ")}`,
+          404
+        );
+      }
+      return {
+        ...current,
+        [meal]: current[meal].filter((item) => !item_ids.includes(item.id)),
+      };
+    }
+  );
+
+  return mealsResult(
+    toolCall,
+    `Removed ${item_ids.length} item(s) from ${meal}`,
+    now,
+    finalMeals,
+    version
+  );
+}
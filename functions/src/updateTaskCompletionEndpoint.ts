@@ -1,15 +1,28 @@
 /**
  * Update Task Completion Status Endpoint
  */
-import { onRequest } from "firebase-functions/v2/https";
-import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
 import {
   PlannerDocument,
-  VapiRequest,
+  TaskItem,
+  VapiToolCall,
   UpdateTaskCompletionFunctionCall,
   TasksResponse,
 } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { resolveTargetDate } from "./services/dateRanges.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
+import {
+  ToolCallError,
+  createToolEndpoint,
+  toolCallError,
+} from "./services/vapiTools.js";
+import { runVersionedUpdate } from "./services/versionedDocuments.js";
+import {
+  getTaskCounts,
+  setTaskComplete,
+  syncTaskWithSteps,
+} from "./services/taskFields.js";
 
 // Initialize Firestore
 const db = getFirestore();
@@ -18,155 +31,113 @@ const db = getFirestore();
 const API_KEY = process.env.VAPI_API_KEY || "";
 
 /**
- * HTTP-triggered function that updates a task's completion status in today's planner
+ * HTTP-triggered function that updates a task's completion status in a day's planner
  */
-export const updateTaskCompletion = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Update task completion request", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
-
-    // Only allow POST requests
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
-
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
-
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
-
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { arguments: args } =
-      toolCall.function as UpdateTaskCompletionFunctionCall;
-    const { user_id, task_id, is_complete } = args;
-
-    // Validate required fields
-    if (!user_id || !task_id || typeof is_complete !== "boolean") {
-      res.status(400).json({
-        success: false,
-        error:
-          "Missing or invalid required fields: user_id, task_id, or is_complete",
-        code: 400,
-      });
-      return;
-    }
+export const updateTaskCompletion = createToolEndpoint(
+  "updateTaskCompletion",
+  [API_KEY],
+  setTaskCompletion
+);
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split("T")[0];
-
-    // Reference to today's planner document
-    const plannerRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("planner")
-      .doc(today);
-
-    // Get the current document
-    const doc = await plannerRef.get();
-
-    if (!doc.exists) {
-      res.status(404).json({
-        success: false,
-        error: "No planner found for today",
-        code: 404,
-      });
-      return;
-    }
-
-    const data = doc.data() as PlannerDocument;
-    const now = new Date();
-
-    // Find and update the task
-    const taskIndex = data.tasks.findIndex((task) => task.id === task_id);
-    if (taskIndex === -1) {
-      res.status(404).json({
-        success: false,
-        error: "Task not found",
-        code: 404,
-      });
-      return;
-    }
+/**
+ * Updates a task's completion status in a day's planner in a single tool call
+ */
+export async function setTaskCompletion(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } =
+    toolCall.function as UpdateTaskCompletionFunctionCall;
+  const { user_id, task_id, step_id, is_complete, expected_version, date } =
+    args;
+
+  // Validate required fields
+  if (!user_id || !task_id || typeof is_complete !== "boolean") {
+    return toolCallError(
+      toolCall.id,
+      "Missing or invalid required fields: user_id, task_id, or is_complete"
+    );
+  }
 
-    // Update the task's completion status
-    data.tasks[taskIndex].isComplete = is_complete;
-
-    // Update the document
-    await plannerRef.update({
-      tasks: data.tasks,
-      lastModified: now,
-      modifiedBy: toolCall.id,
-    });
-
-    // Calculate task statistics
-    const totalTasks = data.tasks.length;
-    const completedTasks = data.tasks.filter((task) => task.isComplete).length;
-
-    // Prepare response
-    const response: TasksResponse = {
-      success: true,
-      message: `Task ${
-        is_complete ? "marked as complete" : "marked as incomplete"
-      }`,
-      timestamp: now.toISOString(),
-      operation_id: toolCall.id,
-      tasks: data.tasks,
-      total_tasks: totalTasks,
-      completed_tasks: completedTasks,
-    };
-
-    // Return success response
-    res.status(200).json({
-      results: [
-        {
-          toolCallId: toolCall.id,
-          result: response,
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's to-do items over if the migration has not reached this
+  // user, so the tasks written here include them
+  await migrateToDoDay(user_id, targetDate);
+
+  // Reference to the day's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  // Update the task in a transaction so concurrent writes are not lost
+  const now = new Date();
+  const { result: tasks, version } = await runVersionedUpdate(
+    plannerRef,
+    expected_version,
+    (current) => {
+      if (!current) {
+        throw new ToolCallError(`No planner found for ${targetDate}`, 404);
+      }
+
+      const data = current as PlannerDocument;
+
+      // Find and update the task
+      const taskIndex = data.tasks.findIndex((task) => task.id === task_id);
+      if (taskIndex === -1) {
+        throw new ToolCallError("Task not found", 404);
+      }
+
+      const task = data.tasks[taskIndex];
+      let updatedTask: TaskItem;
+      if (step_id) {
+        // Update one step; the task completes once all steps are done
+        if (!(task.steps || []).some((step) => step.id === step_id)) {
+          throw new ToolCallError("Step not found", 404);
+        }
+        updatedTask = syncTaskWithSteps({
+          ...task,
+          steps: (task.steps || []).map((step) =>
+            step.id === step_id ? { ...step, isComplete: is_complete } : step
+          ),
+        });
+      } else {
+        // The steps follow the task's new status
+        updatedTask = setTaskComplete(task, is_complete);
+      }
+
+      // Update the task's completion status
+      const updatedTasks = data.tasks.map((task, index) =>
+        index === taskIndex ? updatedTask : task
+      );
+
+      return {
+        data: {
+          tasks: updatedTasks,
+          lastModified: now,
+          modifiedBy: toolCall.id,
         },
-      ],
-    });
-  } catch (error) {
-    logger.error("Error in updateTaskCompletion", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
-  }
-});
+        result: updatedTasks,
+      };
+    }
+  );
+
+  // Prepare response
+  const response: TasksResponse = {
+    success: true,
+    message: `${step_id ? "Step" : "Task"} ${
+      is_complete ? "marked as complete" : "marked as incomplete"
+    }`,
+    timestamp: now.toISOString(),
+    operation_id: toolCall.id,
+    version,
+    tasks: tasks,
+    ...getTaskCounts(tasks),
+  };
+
+  return {
+    toolCallId: toolCall.id,
+    result: response,
+  };
+}
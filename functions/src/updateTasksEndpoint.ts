@@ -1,15 +1,36 @@
 /**
  * Update Tasks Endpoint
  */
-import { onRequest } from "firebase-functions/v2/https";
-import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
+import { v4 as uuidv4 } from "uuid";
 import {
   PlannerDocument,
-  VapiRequest,
+  TaskItem,
+  TaskOperation,
+  VapiToolCall,
   UpdateTasksFunctionCall,
   TasksResponse,
 } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { resolveTargetDate } from "./services/dateRanges.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
+import {
+  ToolCallError,
+  createToolEndpoint,
+  toolCallError,
+} from "./services/vapiTools.js";
+import { runVersionedUpdate } from "./services/versionedDocuments.js";
+import { createEmptyMealPlan } from "./services/mealPlanning.js";
+import {
+  getTaskCounts,
+  parseTaskDetails,
+  setTaskComplete,
+  syncTaskWithSteps,
+} from "./services/taskFields.js";
+import {
+  ValidTaskOperation,
+  applyTaskOperations,
+} from "./services/taskOperations.js";
 
 // Initialize Firestore
 const db = getFirestore();
@@ -20,213 +41,411 @@ const API_KEY = process.env.VAPI_API_KEY || "";
 // Constants
 const MAX_TASKS = 50; // Maximum number of tasks allowed
 const MAX_TASK_LENGTH = 500; // Maximum characters per task
+const MAX_OPERATIONS = 50; // Maximum operations per call
 
 /**
- * HTTP-triggered function that updates tasks in today's planner
+ * HTTP-triggered function that updates tasks in a day's planner
  */
-export const updateTasks = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Update tasks request", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
-
-    // Only allow POST requests
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
+export const updateTasks = createToolEndpoint(
+  "updateTasks",
+  [API_KEY],
+  updateTaskList
+);
 
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
+/**
+ * Changes the tasks in a day's planner in a single tool call, either by
+ * operations or, with replace: true, by replacing the whole list
+ */
+export async function updateTaskList(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as UpdateTasksFunctionCall;
+  const { operations, tasks, replace } = args;
 
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
+  if (operations !== undefined && tasks !== undefined) {
+    return toolCallError(
+      toolCall.id,
+      "Send either operations or tasks, not both"
+    );
+  }
 
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { arguments: args } = toolCall.function as UpdateTasksFunctionCall;
-    const { user_id, tasks } = args;
-
-    // Validate required fields
-    if (!user_id || !tasks) {
-      res.status(400).json({
-        success: false,
-        error: "Missing required fields: user_id or tasks",
-        code: 400,
-      });
-      return;
-    }
+  if (operations !== undefined) {
+    return patchTasks(toolCall);
+  }
 
-    // Validate tasks array
-    if (!Array.isArray(tasks)) {
-      res.status(400).json({
-        success: false,
-        error: "Tasks must be an array",
-        code: 400,
-      });
-      return;
+  // Replacing deletes every task the assistant leaves out, so it must be
+  // asked for explicitly
+  if (tasks !== undefined && replace !== true) {
+    return toolCallError(
+      toolCall.id,
+      "Sending tasks replaces the whole list. Use operations to add, remove, rename or move tasks, or set replace to true."
+    );
+  }
+
+  return replaceTasks(toolCall);
+}
+
+/**
+ * Applies add, remove, rename and move operations to a day's tasks
+ */
+async function patchTasks(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as UpdateTasksFunctionCall;
+  const { user_id, operations, expected_version, date } = args;
+
+  // Validate required fields
+  if (!user_id || !Array.isArray(operations) || operations.length === 0) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id or operations"
+    );
+  }
+
+  if (operations.length > MAX_OPERATIONS) {
+    return toolCallError(
+      toolCall.id,
+      `Too many operations. Maximum allowed: ${MAX_OPERATIONS}`
+    );
+  }
+
+  // Validate every operation before touching the planner
+  const validOperations: ValidTaskOperation[] = [];
+  for (const operation of operations) {
+    const valid = validateTaskOperation(operation);
+    if (typeof valid === "string") {
+      return toolCallError(toolCall.id, valid);
     }
+    validOperations.push(valid);
+  }
 
-    // Validate task limits
-    if (tasks.length > MAX_TASKS) {
-      res.status(400).json({
-        success: false,
-        error: `Too many tasks. Maximum allowed: ${MAX_TASKS}`,
-        code: 400,
-      });
-      return;
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's to-do items over if the migration has not reached this
+  // user, so the tasks written here include them
+  await migrateToDoDay(user_id, targetDate);
+
+  // Reference to the day's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  // Apply the operations to the stored tasks in a transaction
+  const now = new Date();
+  const { result: savedTasks, version } = await runVersionedUpdate(
+    plannerRef,
+    expected_version,
+    (current) => {
+      const updatedTasks = applyTaskOperations(
+        (current?.tasks || []) as TaskItem[],
+        validOperations
+      );
+      if (updatedTasks.length > MAX_TASKS) {
+        throw new ToolCallError(
+          `Too many tasks. Maximum allowed: ${MAX_TASKS}`
+        );
+      }
+
+      if (!current) {
+        // Create new planner document
+        const newPlanner: PlannerDocument = {
+          tasks: updatedTasks,
+          meals: createEmptyMealPlan(),
+          createdAt: now,
+          lastModified: now,
+          modifiedBy: toolCall.id,
+        };
+        return { data: newPlanner, result: updatedTasks };
+      }
+
+      return {
+        data: {
+          tasks: updatedTasks,
+          lastModified: now,
+          modifiedBy: toolCall.id,
+        },
+        result: updatedTasks,
+      };
     }
+  );
 
-    // Validate and normalize each task
-    const normalizedTasks = [];
-    for (const task of tasks) {
-      if (!task.id || !task.text) {
-        res.status(400).json({
-          success: false,
-          error: "Each task must have id and text fields",
-          code: 400,
-        });
-        return;
+  // Prepare response
+  const response: TasksResponse = {
+    success: true,
+    message: `Applied ${validOperations.length} task operation(s)`,
+    timestamp: now.toISOString(),
+    operation_id: toolCall.id,
+    version,
+    tasks: savedTasks,
+    ...getTaskCounts(savedTasks),
+    added_task_ids: validOperations.flatMap((operation) =>
+      operation.op === "add" ? [operation.task.id] : []
+    ),
+  };
+
+  return {
+    toolCallId: toolCall.id,
+    result: response,
+  };
+}
+
+/**
+ * Check one task operation and build the task it adds
+ * Returns the checked operation, or an error message
+ */
+function validateTaskOperation(
+  operation: TaskOperation
+): ValidTaskOperation | string {
+  if (!operation || typeof operation !== "object") {
+    return "Each operation must be an object";
+  }
+
+  const isValidText = (text: unknown): text is string =>
+    typeof text === "string" &&
+    text.trim().length > 0 &&
+    text.length <= MAX_TASK_LENGTH;
+  const isValidPosition = (position: unknown): position is number =>
+    Number.isInteger(position) && (position as number) >= 0;
+  const textError = `Task text must be 1 to ${MAX_TASK_LENGTH} characters`;
+
+  switch (operation.op) {
+    case "add": {
+      if (!isValidText(operation.text)) {
+        return textError;
+      }
+      if (
+        operation.position !== undefined &&
+        !isValidPosition(operation.position)
+      ) {
+        return "position must be a non-negative integer";
       }
 
-      // Handle both isComplete and is_complete for compatibility
-      let isComplete: boolean;
-      if (typeof task.isComplete === "boolean") {
-        isComplete = task.isComplete;
-      } else if (typeof task.is_complete === "boolean") {
-        isComplete = task.is_complete;
-      } else {
-        res.status(400).json({
-          success: false,
-          error:
-            "Each task must have isComplete or is_complete field as boolean",
-          code: 400,
-        });
-        return;
+      const isComplete =
+        operation.isComplete ?? operation.is_complete ?? false;
+      if (typeof isComplete !== "boolean") {
+        return "isComplete must be a boolean";
       }
 
-      if (task.text.length > MAX_TASK_LENGTH) {
-        res.status(400).json({
-          success: false,
-          error: `Task text too long. Maximum length: ${MAX_TASK_LENGTH} characters`,
-          code: 400,
-        });
-        return;
+      // Server-generated ID; the assistant reads it back from the result
+      const id = uuidv4();
+      const details = parseTaskDetails({ ...operation, id });
+      if (typeof details === "string") {
+        return details;
       }
 
-      // Normalize to our expected format
-      normalizedTasks.push({
+      return {
+        op: "add",
+        position: operation.position,
+        task: syncTaskWithSteps({
+          id,
+          text: operation.text.trim(),
+          isComplete,
+          createdAt: new Date(),
+          ...details,
+        }),
+      };
+    }
+    case "remove":
+      if (!operation.task_id) {
+        return "remove needs a task_id";
+      }
+      return { op: "remove", taskId: operation.task_id };
+    case "rename":
+      if (!operation.task_id) {
+        return "rename needs a task_id";
+      }
+      if (!isValidText(operation.text)) {
+        return textError;
+      }
+      return {
+        op: "rename",
+        taskId: operation.task_id,
+        text: operation.text.trim(),
+      };
+    case "move":
+      if (!operation.task_id) {
+        return "move needs a task_id";
+      }
+      if (!isValidPosition(operation.position)) {
+        return "position must be a non-negative integer";
+      }
+      return {
+        op: "move",
+        taskId: operation.task_id,
+        position: operation.position,
+      };
+    default:
+      return `Invalid op: ${
+        (operation as { op?: unknown }).op
+      }. Use add, remove, rename or move`;
+  }
+}
+
+/**
+ * Replaces the tasks in a day's planner in a single tool call
+ */
+async function replaceTasks(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as UpdateTasksFunctionCall;
+  const { user_id, tasks, expected_version, date } = args;
+
+  // Validate required fields
+  if (!user_id || !tasks) {
+    return toolCallError(
+      toolCall.id,
+      "Missing required fields: user_id, and operations or tasks"
+    );
+  }
+
+  // Validate tasks array
+  if (!Array.isArray(tasks)) {
+    return toolCallError(toolCall.id, "Tasks must be an array");
+  }
+
+  // Validate task limits
+  if (tasks.length > MAX_TASKS) {
+    return toolCallError(
+      toolCall.id,
+      `Too many tasks. Maximum allowed: ${MAX_TASKS}`
+    );
+  }
+
+  // Validate and normalize each task
+  const normalizedTasks: TaskItem[] = [];
+  for (const task of tasks) {
+    if (!task.id || !task.text) {
+      return toolCallError(
+        toolCall.id,
+        "Each task must have id and text fields"
+      );
+    }
+
+    // Handle both isComplete and is_complete for compatibility
+    let isComplete: boolean;
+    if (typeof task.isComplete === "boolean") {
+      isComplete = task.isComplete;
+    } else if (typeof task.is_complete === "boolean") {
+      isComplete = task.is_complete;
+    } else {
+      return toolCallError(
+        toolCall.id,
+        "Each task must have isComplete or is_complete field as boolean"
+      );
+    }
+
+    if (task.text.length > MAX_TASK_LENGTH) {
+      return toolCallError(
+        toolCall.id,
+        `Task text too long. Maximum length: ${MAX_TASK_LENGTH} characters`
+      );
+    }
+
+    // Priority, time, duration, category and notes are optional
+    const details = parseTaskDetails(task);
+    if (typeof details === "string") {
+      return toolCallError(toolCall.id, details);
+    }
+
+    // Normalize to our expected format; tasks with steps are complete
+    // once all their steps are
+    normalizedTasks.push(
+      syncTaskWithSteps({
         id: task.id,
         text: task.text,
         isComplete,
+        ...details,
+      })
+    );
+  }
+
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's to-do items over if the migration has not reached this
+  // user, so the tasks written here include them
+  await migrateToDoDay(user_id, targetDate);
+
+  // Reference to the day's planner document
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  // Write in a transaction so the version check and write are atomic
+  const now = new Date();
+  const { result: savedTasks, version } = await runVersionedUpdate(
+    plannerRef,
+    expected_version,
+    (current) => {
+      if (!current) {
+        // Create new planner document
+        const newTasks = normalizedTasks.map((task) => ({
+          ...task,
+          createdAt: now,
+        }));
+        const newPlanner: PlannerDocument = {
+          tasks: newTasks,
+          meals: createEmptyMealPlan(),
+          createdAt: now,
+          lastModified: now,
+          modifiedBy: toolCall.id,
+        };
+        return { data: newPlanner, result: newTasks };
+      }
+
+      // Keep the creation time and rollover count of tasks the assistant
+      // sends back, and their steps unless new steps were sent
+      const storedTasks = new Map<string, TaskItem>(
+        ((current.tasks || []) as TaskItem[]).map((task) => [task.id, task])
+      );
+      const updatedTasks = normalizedTasks.map((task) => {
+        const stored = storedTasks.get(task.id);
+        if (!stored) {
+          return { ...task, createdAt: now };
+        }
+        const keptSteps = !task.steps && stored.steps;
+        const updatedTask = {
+          ...task,
+          ...(stored.createdAt && { createdAt: stored.createdAt }),
+          ...(stored.rolloverCount && { rolloverCount: stored.rolloverCount }),
+          ...(keptSteps && { steps: keptSteps }),
+        };
+        // Kept steps follow a status change and otherwise decide the status
+        return syncTaskWithSteps(
+          keptSteps && task.isComplete !== stored.isComplete
+            ? setTaskComplete(updatedTask, task.isComplete)
+            : updatedTask
+        );
       });
-    }
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split("T")[0];
-
-    // Reference to today's planner document
-    const plannerRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("planner")
-      .doc(today);
-
-    // Get the current document or create new if doesn't exist
-    const doc = await plannerRef.get();
-    const now = new Date();
-
-    if (!doc.exists) {
-      // Create new planner document
-      const newPlanner: PlannerDocument = {
-        tasks: normalizedTasks,
-        meals: {
-          breakfast: "",
-          lunch: "",
-          snacks: "",
-          dinner: "",
+      // Update existing planner document
+      return {
+        data: {
+          tasks: updatedTasks,
+          lastModified: now,
+          modifiedBy: toolCall.id,
         },
-        createdAt: now,
-        lastModified: now,
-        modifiedBy: toolCall.id,
+        result: updatedTasks,
       };
-
-      await plannerRef.set(newPlanner);
-    } else {
-      // Update existing planner document
-      await plannerRef.update({
-        tasks: normalizedTasks,
-        lastModified: now,
-        modifiedBy: toolCall.id,
-      });
     }
+  );
 
-    // Calculate task statistics
-    const totalTasks = normalizedTasks.length;
-    const completedTasks = normalizedTasks.filter(
-      (task) => task.isComplete
-    ).length;
-
-    // Prepare response
-    const response: TasksResponse = {
-      success: true,
-      message: "Tasks updated successfully",
-      timestamp: now.toISOString(),
-      operation_id: toolCall.id,
-      tasks: normalizedTasks,
-      total_tasks: totalTasks,
-      completed_tasks: completedTasks,
-    };
-
-    // Return success response
-    res.status(200).json({
-      results: [
-        {
-          toolCallId: toolCall.id,
-          result: response,
-        },
-      ],
-    });
-  } catch (error) {
-    logger.error("Error in updateTasks", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
-  }
-});
+  // Prepare response
+  const response: TasksResponse = {
+    success: true,
+    message: "Tasks updated successfully",
+    timestamp: now.toISOString(),
+    operation_id: toolCall.id,
+    version,
+    tasks: savedTasks,
+    ...getTaskCounts(savedTasks),
+  };
+
+  return {
+    toolCallId: toolCall.id,
+    result: response,
+  };
+}
@@ -1,14 +1,20 @@
 /**
  * Update To-Do Items Endpoint
  */
-import { onRequest } from "firebase-functions/v2/https";
-import * as logger from "firebase-functions/logger";
 import { getFirestore } from "firebase-admin/firestore";
+import { VapiToolCall, UpdateToDoFunctionCall } from "./types/todoTypes.js";
+import { TaskItem } from "./types/plannerTypes.js";
+import { VapiToolCallResult } from "./types/vapiTypes.js";
+import { resolveTargetDate } from "./services/dateRanges.js";
 import {
-  ToDoItem,
-  VapiRequest,
-  UpdateToDoFunctionCall,
-} from "./types/todoTypes.js";
+  ToolCallError,
+  createToolEndpoint,
+  toolCallError,
+} from "./services/vapiTools.js";
+import { runVersionedUpdate } from "./services/versionedDocuments.js";
+import { setTaskComplete } from "./services/taskFields.js";
+import { toToDoItems } from "./services/toDoCompat.js";
+import { migrateToDoDay } from "./services/toDoMigration.js";
 
 // Initialize Firestore
 const db = getFirestore();
@@ -19,138 +25,94 @@ const API_KEY = process.env.JOURNAL_API_KEY || "";
 /**
  * HTTP-triggered function that updates the completion status of to-do items
  */
-export const updateToDoItems = onRequest(async (req, res) => {
-  try {
-    // Enhanced logging
-    logger.info("Full request object", {
-      method: req.method,
-      url: req.url,
-      headers: req.headers,
-      body: req.body,
-    });
+export const updateToDoItems = createToolEndpoint(
+  "updateToDoItems",
+  [API_KEY],
+  updateToDoItemStatus
+);
 
-    // Only allow POST requests
-    if (req.method !== "POST") {
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed. Please use POST.",
-        code: 405,
-      });
-      return;
-    }
-
-    // Validate API key from headers
-    const providedApiKey = req.headers.apikey;
-    if (!providedApiKey || providedApiKey !== API_KEY) {
-      logger.warn("Unauthorized access attempt", {
-        ip: req.ip,
-        headers: req.headers,
-      });
-      res.status(401).json({
-        success: false,
-        error: "Unauthorized: Invalid or missing API key",
-        code: 401,
-      });
-      return;
-    }
+/**
+ * Updates the completion status of to-do items in a single tool call
+ * To-do items are the tasks of the day's planner
+ */
+export async function updateToDoItemStatus(
+  toolCall: VapiToolCall
+): Promise<VapiToolCallResult> {
+  const { arguments: args } = toolCall.function as UpdateToDoFunctionCall;
+  const { user_id, items, expected_version, date } = args;
+
+  // Validate request data
+  if (!user_id || !Array.isArray(items) || items.length === 0) {
+    return toolCallError(
+      toolCall.id,
+      "Invalid request. Must provide user_id and items array."
+    );
+  }
 
-    // Extract and validate VAPI request structure
-    const vapiRequest = req.body as VapiRequest;
-    if (!vapiRequest?.message?.toolCallList?.[0]?.function?.arguments) {
-      logger.warn("Invalid VAPI request structure", { body: req.body });
-      res.status(400).json({
-        success: false,
-        error: "Invalid request structure. Expected VAPI tool call format.",
-        code: 400,
-      });
-      return;
-    }
+  // Map incoming items to handle both isComplete and is_complete formats
+  const mappedItems = items.map((item) => ({
+    id: item.id,
+    isComplete: "isComplete" in item ? item.isComplete : item.is_complete,
+  }));
+  if (mappedItems.some((item) => typeof item.isComplete !== "boolean")) {
+    return toolCallError(
+      toolCall.id,
+      "Each item must have isComplete or is_complete field as boolean"
+    );
+  }
 
-    // Extract data from VAPI request
-    const toolCall = vapiRequest.message.toolCallList[0];
-    const { arguments: args } = toolCall.function as UpdateToDoFunctionCall;
-    const { user_id, items } = args;
+  const targetDate = await resolveTargetDate(user_id, date);
+
+  // Move the day's items over if the migration has not reached this user
+  await migrateToDoDay(user_id, targetDate);
+
+  // To-do items are stored as tasks in the day's planner
+  const plannerRef = db
+    .collection("users")
+    .doc(user_id)
+    .collection("planner")
+    .doc(targetDate);
+
+  // Update the items in a transaction so concurrent writes are not lost
+  const now = new Date();
+  const { result: updatedItems, version } = await runVersionedUpdate(
+    plannerRef,
+    expected_version,
+    (currentData) => {
+      if (!currentData) {
+        throw new ToolCallError(`No to-do list found for ${targetDate}`, 404);
+      }
 
-    // Validate request data
-    if (!user_id || !Array.isArray(items) || items.length === 0) {
-      res.status(400).json({
-        success: false,
-        error: "Invalid request. Must provide user_id and items array.",
-        code: 400,
+      // Update the status of matching items
+      const updated = ((currentData.tasks || []) as TaskItem[]).map((task) => {
+        const updateItem = mappedItems.find((update) => update.id === task.id);
+        if (updateItem) {
+          return setTaskComplete(task, updateItem.isComplete as boolean);
+        }
+        return task;
       });
-      return;
-    }
-
-    // Map incoming items to handle both isComplete and is_complete formats
-    const mappedItems = items.map((item) => ({
-      id: item.id,
-      isComplete: "isComplete" in item ? item.isComplete : item.is_complete,
-    }));
 
-    // Get today's date
-    const today = new Date().toISOString().split("T")[0];
-
-    // Reference to today's to-do list document
-    const todoListRef = db
-      .collection("users")
-      .doc(user_id)
-      .collection("to_do_list")
-      .doc(today);
-
-    // Get the current document
-    const doc = await todoListRef.get();
-    if (!doc.exists) {
-      res.status(404).json({
-        success: false,
-        error: "No to-do list found for today",
-        code: 404,
-      });
-      return;
+      return {
+        data: {
+          tasks: updated,
+          lastModified: now,
+          modifiedBy: toolCall.id,
+        },
+        result: toToDoItems({ ...currentData, tasks: updated }),
+      };
     }
+  );
 
-    const currentData = doc.data();
-    const currentItems = currentData?.items || [];
-
-    // Update the status of matching items
-    const updatedItems = currentItems.map((item: ToDoItem) => {
-      const updateItem = mappedItems.find((update) => update.id === item.id);
-      if (updateItem) {
-        return {
-          ...item,
-          isComplete: updateItem.isComplete,
-        };
-      }
-      return item;
-    });
-
-    // Update the document
-    await todoListRef.update({
-      items: updatedItems,
-      updated_at: new Date(),
-      vapi_tool_call_id: toolCall.id,
-    });
-
-    // Return success response
-    res.status(200).json({
+  return {
+    toolCallId: toolCall.id,
+    result: {
       success: true,
       message: "To-do items updated successfully",
-      timestamp: new Date().toISOString(),
-      date: today,
-      tool_call_id: toolCall.id,
+      timestamp: now.toISOString(),
+      date: targetDate,
       updatedItems: items.length,
       items: updatedItems,
-    });
-  } catch (error) {
-    logger.error("Error in updateToDoItems", {
-      error:
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error,
-      requestBody: req.body,
-    });
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-    });
-  }
-});
+      version,
+    },
+  };
+}
@@ -7,25 +7,38 @@ import {
   onDocumentDeleted,
 } from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
-import { scheduleVapiCall } from "./services/vapi";
+import {
+  CALL_TYPES,
+  cancelScheduledCalls,
+  getCallTime,
+  isCallEnabled,
+  rescheduleCall,
+} from "./services/scheduledCalls";
+import { deleteUserData } from "./services/userDeletion";
+import { provisionNewUser } from "./services/userProvisioning";
+import { UserProfile } from "./types/userTypes";
 
 /**
- * Firestore onCreate trigger - runs when a document is created
- * This example triggers when a new user document is created in the 'users'
- * collection
+ * Firestore onCreate trigger - runs when a new user document is created
+ * in the 'users' collection and provisions the user's defaults
  */
-export const onNewUser = onDocumentCreated("users/{userId}", (event) => {
-  const userId = event.params.userId;
-  const userData = event.data?.data();
+export const onNewUser = onDocumentCreated(
+  "users/{userId}",
+  async (event) => {
+    const userId = event.params.userId;
+    const userData = event.data?.data();
 
-  logger.info(`New user created with ID: ${userId}`, userData);
+    logger.info(`New user created with ID: ${userId}`, userData);
 
-  // You could perform actions like:
-  // - Create default data in other collections
-  // - Send welcome emails
-  // - Update counters
-  return null;
-});
+    try {
+      await provisionNewUser(userId, (userData || {}) as UserProfile);
+    } catch (error) {
+      logger.error(`Error provisioning user ${userId}:`, error);
+    }
+
+    return null;
+  },
+);
 
 /**
  * Firestore onUpdate trigger - runs when a user document is updated
@@ -42,54 +55,51 @@ export const onUserUpdated = onDocumentUpdated(
       {before: beforeData, after: afterData},
     );
 
-    // Check if morningCallTime or eveningCallTime has been updated
-    const morningCallTimeChanged = beforeData?.morningCallTime !==
-      afterData?.morningCallTime && afterData?.morningCallTime;
-    const eveningCallTimeChanged = beforeData?.eveningCallTime !==
-      afterData?.eveningCallTime && afterData?.eveningCallTime;
-
-    const phoneNumber = afterData?.phoneNumber;
-    const userName = afterData?.name;
-    if (!phoneNumber || !userName) {
-      logger.warn(
-        `Cannot schedule calls for user ${userId}: ` +
-        "No phone number or name found",
-      );
-      return null;
-    }
+    const before = (beforeData || {}) as UserProfile;
+    const after = (afterData || {}) as UserProfile;
 
-    try {
-      // Schedule morning call if morningCallTime was updated
-      if (morningCallTimeChanged) {
-        await scheduleVapiCall(
-          userId,
-          userName,
-          phoneNumber,
-          afterData.morningCallTime,
-          "morning",
-        );
-        logger.info(
-          `Scheduled morning call for user ${userId} at ` +
-          `${afterData.morningCallTime}`,
-        );
-      }
+    // Call times are local to the user's time zone, so a zone change
+    // means both calls need to be booked again
+    const timeZoneChanged = before.timeZone !== after.timeZone;
+    const phoneNumberChanged = before.phoneNumber !== after.phoneNumber;
 
-      // Schedule evening call if eveningCallTime was updated
-      if (eveningCallTimeChanged) {
-        await scheduleVapiCall(
-          userId,
-          userName,
-          phoneNumber,
-          afterData.eveningCallTime,
-          "evening",
-        );
-        logger.info(
-          `Scheduled evening call for user ${userId} at ` +
-          `${afterData.eveningCallTime}`,
+    for (const callType of CALL_TYPES) {
+      try {
+        // Cancel pending calls when the call time or phone number is
+        // cleared or the user opts out
+        if (!isCallEnabled(after, callType)) {
+          if (isCallEnabled(before, callType)) {
+            await cancelScheduledCalls(userId, callType);
+          }
+          continue;
+        }
+
+        const callTimeChanged =
+          getCallTime(before, callType) !== getCallTime(after, callType);
+        if (
+          !callTimeChanged &&
+          !timeZoneChanged &&
+          !phoneNumberChanged &&
+          isCallEnabled(before, callType)
+        ) {
+          continue;
+        }
+
+        // Replace any pending call of this type with one at the new time.
+        // A call that cannot be replaced is recorded on the user document.
+        const record = await rescheduleCall(userId, after, callType);
+        if (record) {
+          logger.info(
+            `Scheduled ${callType} call for user ${userId} at ` +
+            `${getCallTime(after, callType)}`,
+          );
+        }
+      } catch (error) {
+        logger.error(
+          `Error scheduling ${callType} call for user ${userId}:`,
+          error,
         );
       }
-    } catch (error) {
-      logger.error(`Error scheduling calls for user ${userId}:`, error);
     }
 
     return null;
@@ -101,11 +111,18 @@ export const onUserUpdated = onDocumentUpdated(
  */
 export const onUserDeleted = onDocumentDeleted(
   "users/{userId}",
-  (event) => {
+  async (event) => {
     const userId = event.params.userId;
 
     logger.info(`User ${userId} was deleted`);
-    // Clean up related data
+
+    // Cancel pending calls and remove all per-user subcollections
+    try {
+      await deleteUserData(userId);
+    } catch (error) {
+      logger.error(`Error deleting data for user ${userId}:`, error);
+    }
+
     return null;
   },
 );
@@ -0,0 +1,131 @@
+/**
+ * Vapi Server Messages Endpoint
+ * The assistant's server URL: answers tool calls through the vapiTools
+ * handlers and stores each call's status-update and end-of-call-report
+ * messages in the user's call history
+ */
+import { onRequest } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { VapiServerMessageRequest } from "./types/callTypes.js";
+import { hasValidApiKey, runToolCalls } from "./services/vapiTools.js";
+import { API_KEYS, dispatchToolCall } from "./vapiToolsEndpoint.js";
+import {
+  getCallUserId,
+  recordCallStatus,
+  recordEndOfCallReport,
+} from "./services/callHistory.js";
+import { retryMissedCall } from "./services/callRetries.js";
+
+/**
+ * HTTP-triggered function that runs tool calls, records call status
+ * changes and end-of-call reports, and books a retry when a scheduled call
+ * was missed. Other message types are acknowledged and ignored.
+ */
+export const vapiServerMessages = onRequest(async (req, res) => {
+  try {
+    // Only allow POST requests (since VAPI sends data via POST)
+    if (req.method !== "POST") {
+      res.status(405).json({
+        success: false,
+        error: "Method not allowed. Please use POST.",
+        code: 405,
+      });
+      return;
+    }
+
+    // Validate API key from headers
+    if (!hasValidApiKey(req, API_KEYS)) {
+      logger.warn("Unauthorized access attempt", { ip: req.ip });
+      res.status(401).json({
+        success: false,
+        error: "Unauthorized: Invalid or missing API key",
+        code: 401,
+      });
+      return;
+    }
+
+    const message = (req.body as VapiServerMessageRequest)?.message;
+    if (!message?.type) {
+      logger.warn("Invalid Vapi server message", { body: req.body });
+      res.status(400).json({
+        success: false,
+        error: "Invalid request structure. Expected a Vapi server message.",
+        code: 400,
+      });
+      return;
+    }
+
+    // Tool calls get the same results[] response as the vapiTools endpoint
+    if (message.type === "tool-calls") {
+      if (
+        !Array.isArray(message.toolCallList) ||
+        message.toolCallList.length === 0
+      ) {
+        logger.warn("Invalid VAPI request structure", { body: req.body });
+        res.status(400).json({
+          success: false,
+          error: "Invalid request structure. Expected VAPI tool call format.",
+          code: 400,
+        });
+        return;
+      }
+
+      const results = await runToolCalls(
+        message.toolCallList,
+        dispatchToolCall
+      );
+      res.status(200).json({ results });
+      return;
+    }
+
+    if (
+      message.type !== "status-update" &&
+      message.type !== "end-of-call-report"
+    ) {
+      res.status(200).json({ success: true, ignored: true });
+      return;
+    }
+
+    // Calls are linked to users through the user_id variable value set
+    // when the call was booked
+    const userId = getCallUserId(message.call);
+    if (!userId || !message.call?.id) {
+      logger.warn("Vapi server message without a user_id", {
+        type: message.type,
+        callId: message.call?.id,
+      });
+      res.status(200).json({ success: true, ignored: true });
+      return;
+    }
+
+    if (message.type === "status-update") {
+      await recordCallStatus(userId, message);
+    } else {
+      const call = await recordEndOfCallReport(userId, message);
+
+      // A failed retry must not fail the report, which is already stored
+      try {
+        await retryMissedCall(userId, call);
+      } catch (error) {
+        logger.error(
+          `Error retrying missed call ${call.vapiCallId} for user ${userId}:`,
+          error
+        );
+      }
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    logger.error("Error in vapiServerMessages", {
+      error:
+        error instanceof Error
+          ? { message: error.message, stack: error.stack }
+          : error,
+      requestBody: req.body,
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+});
@@ -0,0 +1,129 @@
+/**
+ * Vapi Tools Dispatch Endpoint
+ * A single server URL for the assistant. Each tool call is routed to the
+ * handler registered under its function name.
+ */
+import * as logger from "firebase-functions/logger";
+import {
+  VapiGenericToolCall,
+  VapiToolCallResult,
+  VapiToolHandler,
+} from "./types/vapiTypes.js";
+import {
+  createToolEndpoint,
+  toolCallError,
+  toolHandler,
+} from "./services/vapiTools.js";
+import {
+  addToDoItems,
+  createJournalEntry,
+  appendJournalEntry,
+  getJournalEntries,
+} from "./journalEndpoints.js";
+import { updateToDoItemStatus } from "./updateToDoEndpoint.js";
+import { getToDoList } from "./getToDoEndpoint.js";
+import {
+  editToDoItem,
+  deleteToDoItems,
+  reorderToDoItems,
+} from "./toDoItemTools.js";
+import { getPlanner } from "./getTodaysPlannerEndpoint.js";
+import { getToDoLists, getPlanners } from "./historyEndpoints.js";
+import {
+  planWeekMeals,
+  generateGroceryList,
+  getGroceryList,
+  checkGroceryItems,
+} from "./mealPlanningTools.js";
+import { getProductivityStatsForPeriod } from "./productivityStatsTool.js";
+import { updateTaskList } from "./updateTasksEndpoint.js";
+import { setTaskCompletion } from "./updateTaskCompletionEndpoint.js";
+import {
+  mergeMeals,
+  addMealItems,
+  removeMealItems,
+} from "./updateMealsEndpoint.js";
+import { listCalendarEvents } from "./getCalendarEventsEndpoint.js";
+import {
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent,
+} from "./calendarEventTools.js";
+
+// Either key is accepted so existing tool configs keep working
+export const API_KEYS = [
+  process.env.VAPI_API_KEY || "",
+  process.env.JOURNAL_API_KEY || "",
+];
+
+/**
+ * Tool handlers keyed by the function name configured in Vapi.
+ * To add a tool, register its handler here.
+ */
+export const TOOL_HANDLERS: Record<string, VapiToolHandler> = {
+  // To-do list (older names, stored as planner tasks)
+  createToDoList: toolHandler(addToDoItems),
+  updateToDoItems: toolHandler(updateToDoItemStatus),
+  getTodayToDoList: toolHandler(getToDoList),
+  getToDoLists: toolHandler(getToDoLists),
+  editToDoItem: toolHandler(editToDoItem),
+  deleteToDoItems: toolHandler(deleteToDoItems),
+  reorderToDoItems: toolHandler(reorderToDoItems),
+
+  // Planner
+  getTodaysPlanner: toolHandler(getPlanner),
+  getPlanners: toolHandler(getPlanners),
+  updateTasks: toolHandler(updateTaskList),
+  updateTaskCompletion: toolHandler(setTaskCompletion),
+
+  // Meals
+  updateMeals: toolHandler(mergeMeals),
+  addMealItems: toolHandler(addMealItems),
+  removeMealItems: toolHandler(removeMealItems),
+  planWeekMeals: toolHandler(planWeekMeals),
+  generateGroceryList: toolHandler(generateGroceryList),
+  getGroceryList: toolHandler(getGroceryList),
+  checkGroceryItems: toolHandler(checkGroceryItems),
+
+  // Journal
+  createJournalEntry: toolHandler(createJournalEntry),
+  appendJournalEntry: toolHandler(appendJournalEntry),
+  getJournalEntries: toolHandler(getJournalEntries),
+
+  // Stats
+  getProductivityStats: toolHandler(getProductivityStatsForPeriod),
+
+  // Calendar
+  getCalendarEvents: toolHandler(listCalendarEvents),
+  createCalendarEvent: toolHandler(createCalendarEvent),
+  updateCalendarEvent: toolHandler(updateCalendarEvent),
+  deleteCalendarEvent: toolHandler(deleteCalendarEvent),
+};
+
+/**
+ * Routes one tool call to the handler registered under its function name
+ */
+export async function dispatchToolCall(
+  toolCall: VapiGenericToolCall
+): Promise<VapiToolCallResult> {
+  const toolName = toolCall.function.name;
+  const handler = Object.prototype.hasOwnProperty.call(TOOL_HANDLERS, toolName)
+    ? TOOL_HANDLERS[toolName]
+    : undefined;
+
+  if (!handler) {
+    logger.warn("Unknown tool requested", { toolName, toolCall });
+    return toolCallError(toolCall.id, `Unknown tool: ${toolName}`);
+  }
+
+  return handler(toolCall);
+}
+
+/**
+ * HTTP-triggered function that routes every tool call to its handler
+ */
+export const vapiTools = createToolEndpoint(
+  "vapiTools",
+  API_KEYS,
+  dispatchToolCall
+);